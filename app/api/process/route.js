@@ -4,14 +4,66 @@
 const OPENROUTER_MODEL = "google/gemini-2.0-flash-001";
 const FIELDS_TO_CHECK = ['enunciado', 'resolucao', 'resolucao_aprofundada', 'texto_associado'];
 
+// Caminhos dos campos: "comentario", "dados.enunciado", "alternativas[*].texto"
+// Mesma gramática do backend (tablerepair-backend/src/utils/fieldPaths.ts)
+const PATH_PART = /^([^.[\]*\s]+)((?:\[(?:\*|\d+)\])*)$/;
+const MAX_FIELDS = 50;
+
+// Segmentos do caminho (chave, índice ou '*'); null = caminho inválido
+function parseFieldPath(path) {
+    if (typeof path !== 'string') return null;
+    const segments = [];
+    for (const part of path.split('.')) {
+        const match = PATH_PART.exec(part);
+        if (!match) return null;
+        segments.push(match[1]);
+        for (const [, index] of match[2].matchAll(/\[(\*|\d+)\]/g)) {
+            segments.push(index === '*' ? '*' : Number(index));
+        }
+    }
+    return segments;
+}
+
+// { parent, key, value } de cada valor string encontrado (só propriedades próprias)
+function resolveFields(question, patterns) {
+    const found = [];
+    const walk = (parent, key, value, rest) => {
+        if (rest.length === 0) {
+            if (typeof value === 'string' && !found.some(f => f.parent === parent && f.key === key)) {
+                found.push({ parent, key, value });
+            }
+            return;
+        }
+        const [segment, ...tail] = rest;
+        if (segment === '*') {
+            if (Array.isArray(value)) value.forEach((item, i) => walk(value, i, item, tail));
+        } else if (typeof segment === 'number') {
+            if (Array.isArray(value) && segment < value.length) walk(value, segment, value[segment], tail);
+        } else if (value && typeof value === 'object' && !Array.isArray(value) && Object.hasOwn(value, segment)) {
+            walk(value, segment, value[segment], tail);
+        }
+    };
+    for (const pattern of patterns) walk(null, null, question, pattern);
+    return found;
+}
+
 export async function POST(request) {
     try {
-          const { questions, indices } = await request.json();
+          const { questions, indices, fields } = await request.json();
 
       if (!questions || !Array.isArray(questions)) {
               return Response.json({ error: 'questions array required' }, { status: 400 });
       }
 
+      if (fields !== undefined && (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_FIELDS)) {
+              return Response.json({ error: `fields must be an array with 1 to ${MAX_FIELDS} paths` }, { status: 400 });
+      }
+          const invalid = (fields || []).findIndex(path => !parseFieldPath(path));
+          if (invalid >= 0) {
+                  return Response.json({ error: `Invalid field path: "${fields[invalid]}"` }, { status: 400 });
+          }
+          const fieldPatterns = [...new Set(fields || FIELDS_TO_CHECK)].map(parseFieldPath);
+
       const apiKey = process.env.OPENROUTER_KEY;
           if (!apiKey) {
                   return Response.json({ error: 'OPENROUTER_KEY not configured' }, { status: 500 });
@@ -22,12 +74,12 @@ export async function POST(request) {
           let tablesRepaired = 0;
 
       for (let i = 0; i < questions.length; i++) {
-              const question = { ...questions[i] };
+              const question = structuredClone(questions[i]);
               let questionRepaired = false;
 
-            for (const field of FIELDS_TO_CHECK) {
-                      const content = question[field];
-                      if (!content || typeof content !== 'string') continue;
+            for (const target of resolveFields(question, fieldPatterns)) {
+                      const content = target.value;
+                      if (!content) continue;
 
                 const tableMatches = content.match(/<table[\s\S]*?<\/table>/gi);
                       if (!tableMatches) continue;
@@ -42,7 +94,7 @@ export async function POST(request) {
                         try {
                                       const repairedHtml = await repairTable(tableHtml, question, apiKey);
                                       if (repairedHtml && repairedHtml !== tableHtml) {
-                                                      question[field] = question[field].replace(tableHtml, repairedHtml);
+                                                      target.parent[target.key] = target.parent[target.key].replace(tableHtml, repairedHtml);
                                                       tablesRepaired++;
                                                       questionRepaired = true;
                                       }
@@ -0,0 +1,104 @@
+/**
+ * Regressão do auditor contra um export real.
+ *
+ *   npm run audit:baseline -- export.json --update          # grava o baseline
+ *   npm run audit:baseline -- export.json                   # compara com o baseline salvo
+ *   npm run audit:baseline -- export.json --baseline b.json --limit 50
+ *
+ * Sem --baseline, o arquivo é <export>.audit-baseline.json ao lado do export.
+ * Saída: 0 = igual ao baseline, 1 = detecção mudou, 2 = erro de uso/arquivo.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { auditFile, diffBaseline, parseBaseline } from '../src/services/auditBaseline.js';
+import type { BaselineIssue } from '../src/services/auditBaseline.js';
+
+const USAGE = 'Usage: npm run audit:baseline -- <export.json> [--baseline <file>] [--update] [--limit <n>]';
+const DEFAULT_LIMIT = 20;
+
+interface CliOptions {
+  exportPath: string;
+  baselinePath: string;
+  update: boolean;
+  limit: number;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const positional: string[] = [];
+  let baselinePath: string | null = null;
+  let update = false;
+  let limit = DEFAULT_LIMIT;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--update') update = true;
+    else if (arg === '--baseline') baselinePath = argv[++i];
+    else if (arg === '--limit') limit = Number(argv[++i]);
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else positional.push(arg);
+  }
+
+  if (positional.length !== 1 || (baselinePath !== null && !baselinePath) || !Number.isInteger(limit) || limit < 0) {
+    throw new Error(USAGE);
+  }
+
+  const exportPath = positional[0];
+  const parsed = path.parse(exportPath);
+
+  return {
+    exportPath,
+    baselinePath: baselinePath ?? path.join(parsed.dir, `${parsed.name}.audit-baseline.json`),
+    update,
+    limit,
+  };
+};
+
+const describeIssue = (issue: BaselineIssue): string =>
+  `  [${issue.severity}] ${issue.type} q#${issue.questionIndex} (${issue.qid}) ${issue.field}[${issue.tableIndex}]: ${issue.title}`;
+
+const printIssues = (label: string, issues: BaselineIssue[], limit: number) => {
+  if (issues.length === 0) return;
+  console.log(`\n${label} (${issues.length}):`);
+  issues.slice(0, limit).forEach(issue => console.log(describeIssue(issue)));
+  if (issues.length > limit) console.log(`  ... ${issues.length - limit} more`);
+};
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const start = Date.now();
+  const current = await auditFile(options.exportPath);
+  const { questions, totalTables, bad, warn } = current.stats;
+  console.log(`Audited ${questions} questions, ${totalTables} tables (${bad} BAD, ${warn} WARN) in ${Date.now() - start} ms`);
+
+  if (options.update) {
+    await fs.writeFile(options.baselinePath, JSON.stringify(current, null, 2) + '\n');
+    console.log(`Baseline written to ${options.baselinePath}`);
+    return 0;
+  }
+
+  const baseline = parseBaseline(await fs.readFile(options.baselinePath, 'utf-8'));
+  const diff = diffBaseline(baseline, current);
+
+  if (!diff.changed) {
+    console.log(`No detection changes against ${options.baselinePath} (${diff.unchanged} issues)`);
+    return 0;
+  }
+
+  console.log(`\nDetection changed against ${options.baselinePath} (baseline from ${baseline.createdAt})`);
+  console.table({ baseline: diff.stats.baseline, current: diff.stats.current });
+  if (diff.byType.length > 0) console.table(diff.byType);
+
+  printIssues('Added', diff.added, options.limit);
+  printIssues('Removed', diff.removed, options.limit);
+
+  return 1;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch((error: any) => {
+    console.error(error.message);
+    process.exitCode = 2;
+  });
@@ -0,0 +1,91 @@
+/**
+ * Benchmark do parser HTML: jsdom x utils/dom.ts (parse5) no corpus de fixtures dos testes.
+ *
+ *   npm run bench:parser              # 50 iterações do corpus
+ *   npm run bench:parser -- 1000      # iterações
+ *
+ * Mede o mesmo trabalho que a auditoria faz por tabela (parse, seletores, textContent,
+ * innerHTML) e, no fim, o throughput do auditData com o parser atual.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { performance } from 'perf_hooks';
+import { JSDOM } from 'jsdom';
+import { parseHtml } from '../src/utils/dom.js';
+import { auditData } from '../src/services/auditService.js';
+import type { Question } from '../src/utils/types.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TABLES_DIR = path.join(ROOT, 'tests', 'fixtures', 'tables');
+const ITERATIONS = Number(process.argv[2]) || 50;
+
+const corpus = fs.readdirSync(TABLES_DIR)
+  .filter(f => f.endsWith('.html'))
+  .map(f => fs.readFileSync(path.join(TABLES_DIR, f), 'utf-8'));
+
+interface QueryableDocument {
+  querySelector(selector: string): any;
+}
+
+// Trabalho típico do analyzeTable sobre uma tabela já parseada
+const touchTable = (doc: QueryableDocument): number => {
+  const table = doc.querySelector('table');
+  if (!table) return 0;
+
+  let acc = table.querySelectorAll('tr').length + table.querySelectorAll('td table, th table').length;
+  for (const cell of Array.from(table.querySelectorAll('th, td')) as any[]) {
+    acc += (cell.textContent ?? '').length + (cell.innerHTML ?? '').length;
+    acc += cell.getAttribute('colspan') ? 1 : 0;
+    if (cell.querySelector('img, svg, canvas, video, audio, iframe, math')) acc++;
+  }
+  return acc + table.outerHTML.length;
+};
+
+const bench = (label: string, parse: (html: string) => QueryableDocument) => {
+  // Aquecimento (JIT)
+  for (const html of corpus) touchTable(parse(html));
+
+  const heapBefore = process.memoryUsage().heapUsed;
+  const start = performance.now();
+  let checksum = 0;
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    for (const html of corpus) checksum += touchTable(parse(html));
+  }
+
+  const ms = performance.now() - start;
+  const tables = ITERATIONS * corpus.length;
+
+  return {
+    label,
+    ms: Math.round(ms),
+    tablesPerSec: Math.round(tables / (ms / 1000)),
+    heapDeltaMB: Math.round((process.memoryUsage().heapUsed - heapBefore) / 1024 / 1024),
+    checksum,
+  };
+};
+
+const jsdom = bench('jsdom', html => new JSDOM(html).window.document);
+const parse5 = bench('parse5 (utils/dom)', parseHtml);
+
+console.log(`Corpus: ${corpus.length} tables x ${ITERATIONS} iterations\n`);
+console.table([jsdom, parse5]);
+
+if (jsdom.checksum !== parse5.checksum) {
+  console.error('Checksum mismatch: the parsers disagree on the corpus');
+  process.exitCode = 1;
+}
+
+console.log(`Speedup: ${(jsdom.ms / parse5.ms).toFixed(1)}x`);
+
+// Auditoria completa (parser atual): uma questão por tabela do corpus
+const questions: Question[] = Array.from({ length: ITERATIONS }, (_, i) => corpus.map((html, j) => ({
+  id: `${i}-${j}`,
+  enunciado: `<p>Questão</p>${html}`,
+}))).flat();
+
+const report = auditData(questions);
+console.log(`\nauditData: ${questions.length} questions, ${report.stats.totalTables} tables in ${report.stats.time} ms ` +
+  `(${Math.round(report.stats.totalTables / (report.stats.time / 1000))} tables/s)`);
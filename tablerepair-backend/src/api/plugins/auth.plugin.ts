@@ -0,0 +1,59 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { authenticateApiKey } from '../../services/authService.js';
+import type { AuthContext } from '../../utils/types.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth: AuthContext;
+  }
+}
+
+// "Authorization: Bearer <key>" ou "X-API-Key: <key>"
+const extractApiKey = (request: FastifyRequest): string | null => {
+  const authorization = request.headers.authorization;
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+
+  // WebSocket no browser não permite headers customizados
+  if (request.ws) {
+    const { api_key } = request.query as { api_key?: string };
+    if (api_key) return api_key;
+  }
+
+  return null;
+};
+
+const auth: FastifyPluginAsync = async (app) => {
+  app.decorateRequest('auth', null);
+
+  app.addHook('onRequest', async (request, reply) => {
+    const key = extractApiKey(request);
+    if (!key) {
+      return reply.status(401).send({ error: 'Missing API key' });
+    }
+
+    const auth = await authenticateApiKey(key);
+    if (!auth) {
+      return reply.status(401).send({ error: 'Invalid API key' });
+    }
+
+    request.auth = auth;
+  });
+};
+
+// fastify-plugin: o hook vale para as rotas do escopo que registrou o plugin
+export const authPlugin = fp(auth, { name: 'auth' });
+
+// preHandler para rotas admin / operações que afetam a fila inteira
+export const requireAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (request.auth?.role !== 'ADMIN') {
+    return reply.status(403).send({ error: 'Admin API key required' });
+  }
+};
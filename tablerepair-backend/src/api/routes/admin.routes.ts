@@ -0,0 +1,137 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { db } from '../../services/dbService.js';
+import { issueApiKey } from '../../services/authService.js';
+import { getQueueStats, pauseQueue, resumeQueue } from '../../config/queue.js';
+import { requireAdmin } from '../plugins/auth.plugin.js';
+import { createLogger } from '../../utils/logger.js';
+
+const log = createLogger('adminRoutes');
+
+// Schemas de validação
+const tenantSchema = z.object({
+  name: z.string().trim().min(1),
+});
+
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1),
+  role: z.enum(['CLIENT', 'ADMIN']).default('CLIENT'),
+  tenantId: z.string().optional(),
+}).refine(k => k.role === 'ADMIN' || !!k.tenantId, {
+  message: 'tenantId is required for CLIENT keys',
+});
+
+export const adminRoutes: FastifyPluginAsync = async (app) => {
+  app.addHook('preHandler', requireAdmin);
+
+  // ==========================================
+  // TENANTS
+  // ==========================================
+
+  app.post('/tenants', async (request, reply) => {
+    const body = tenantSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const tenant = await db.createTenant(body.data.name);
+    log.info('Tenant created', { tenantId: tenant.id, name: tenant.name });
+
+    return reply.status(201).send(tenant);
+  });
+
+  app.get('/tenants', async () => {
+    const tenants = await db.listTenants();
+
+    return {
+      total: tenants.length,
+      tenants: tenants.map(t => ({
+        id: t.id,
+        name: t.name,
+        createdAt: t.createdAt,
+        batches: t._count.batches,
+        apiKeys: t._count.clients,
+      })),
+    };
+  });
+
+  // ==========================================
+  // API KEYS
+  // ==========================================
+
+  // POST /keys - A chave em texto só aparece nesta resposta
+  app.post('/keys', async (request, reply) => {
+    const body = apiKeySchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const tenantId = body.data.tenantId ?? null;
+    if (tenantId && !(await db.getTenant(tenantId))) {
+      return reply.status(404).send({ error: 'Tenant not found' });
+    }
+
+    const { client, key } = await issueApiKey({ name: body.data.name, role: body.data.role, tenantId });
+
+    return reply.status(201).send({
+      id: client.id,
+      name: client.name,
+      role: client.role,
+      tenantId: client.tenantId,
+      keyPrefix: client.keyPrefix,
+      key,
+    });
+  });
+
+  app.get('/keys', async (request) => {
+    const { tenantId } = request.query as { tenantId?: string };
+
+    const clients = await db.listApiClients(tenantId);
+
+    return {
+      total: clients.length,
+      keys: clients.map(c => ({
+        id: c.id,
+        name: c.name,
+        role: c.role,
+        tenantId: c.tenantId,
+        keyPrefix: c.keyPrefix,
+        createdAt: c.createdAt,
+        lastUsedAt: c.lastUsedAt,
+        revokedAt: c.revokedAt,
+      })),
+    };
+  });
+
+  app.delete('/keys/:keyId', async (request, reply) => {
+    const { keyId } = request.params as { keyId: string };
+
+    const client = await db.revokeApiClient(keyId);
+
+    if (!client) {
+      return reply.status(404).send({ error: 'API key not found' });
+    }
+
+    log.info('API key revoked', { clientId: client.id });
+
+    return { id: client.id, revokedAt: client.revokedAt };
+  });
+
+  // ==========================================
+  // FILA (afeta todos os tenants)
+  // ==========================================
+
+  app.get('/queue', async () => {
+    return getQueueStats();
+  });
+
+  app.post('/queue/pause', async () => {
+    await pauseQueue();
+    return { paused: true };
+  });
+
+  app.post('/queue/resume', async () => {
+    await resumeQueue();
+    return { paused: false };
+  });
+};
@@ -1,187 +1,308 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import * as fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
 import * as path from 'path';
 import { db } from '../../services/dbService.js';
-import { addBulkRepairJobs, cancelBatchJobs, getQueueStats } from '../../config/queue.js';
-import { auditData, getQuestionId, FIELDS_TO_AUDIT } from '../../services/auditService.js';
+import { addAuditJob, cancelBatchJobs, getQueueStats, holdBatchJobs, releaseBatchJobs, requeueRepairJob, requeueRepairJobs } from '../../config/queue.js';
+import { INPUT_FORMATS, detectInputFormat, getInputAdapter, outputFileName, readFileHead } from '../../services/inputFormats/index.js';
+import { openBatchStream } from '../../services/streamService.js';
+import { estimateEta } from '../../services/estimateService.js';
+import { checkBatchCompletion } from '../../services/outputService.js';
+import { tableToGrid, diffGrids, renderDiffHtml } from '../../services/diffService.js';
+import { repairInputHtml } from '../../services/ruleRepairService.js';
+import { evictCachedRepair, storeRepair } from '../../services/repairCacheService.js';
+import { parseProviderChain, serializeProviderChain } from '../../services/providers/index.js';
+import { checkBudget, getDailyBudget } from '../../services/budgetService.js';
+import { canAccessBatch } from '../../services/authService.js';
+import { auditRulesSchema, mergeAuditRules } from '../../services/auditRules.js';
+import { FIELDS_TO_AUDIT } from '../../services/auditService.js';
+import { isValidFieldPath } from '../../utils/fieldPaths.js';
 import { createLogger } from '../../utils/logger.js';
 import { env } from '../../config/env.js';
-import type { Question, JobPayload, RepairContext } from '../../utils/types.js';
+import type { Batch } from '@prisma/client';
+import type { AuditRules, JobPayload, RepairContext, BatchProgress, BatchPriority } from '../../utils/types.js';
 
 const log = createLogger('batchRoutes');
 
 // Schemas de validação
+
+// Cadeia de provedores: "hybrid", "openrouter", "google,openrouter", ["openai-compatible", "mock"]...
+const strategySchema = z.union([z.string(), z.array(z.string()).min(1)])
+  .superRefine((value, ctx) => {
+    try {
+      parseProviderChain(value);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  })
+  .transform(value => serializeProviderChain(value));
+
 const uploadOptionsSchema = z.object({
-  strategy: z.enum(['hybrid', 'openrouter']).default('hybrid'),
+  strategy: strategySchema.default(env.DEFAULT_PROVIDER_CHAIN),
   dryRun: z.boolean().default(false),
   severityFilter: z.enum(['BAD', 'WARN', 'ALL']).default('BAD'),
+  autoFix: z.boolean().default(true),
+  requireReview: z.boolean().default(false),
+  maxCostBRL: z.number().positive().optional(),
+  priority: z.enum(['low', 'normal', 'high']).default('normal'),
+  maxConcurrency: z.number().int().positive().optional(),
+  bypassCache: z.boolean().default(false), // ignora o RepairCache (reparos novos ainda são gravados)
+  inputFormat: z.enum(INPUT_FORMATS).optional(), // padrão: extensão do arquivo, depois o conteúdo
+  auditProfile: z.string().trim().min(1).optional(), // perfil salvo (/audit-profiles)
+  auditRules: auditRulesSchema.optional(), // overrides sobre o perfil (ou sobre o padrão)
+  // Campos auditados/reparados: "comentario", "alternativas[*].texto" (padrão: FIELDS_TO_AUDIT)
+  fields: z.array(
+    z.string().trim().refine(isValidFieldPath, { message: 'Invalid field path (use "a.b", "a[0].b" or "a[*].b")' })
+  ).min(1).max(50).optional(),
+});
+
+const budgetSchema = z.object({
+  maxCostBRL: z.number().positive().nullable().optional(), // null remove o limite do batch
+  dailyBudgetBRL: z.number().positive().nullable().optional(), // limite global de hoje (todos os batches)
+  resume: z.boolean().default(true),
+}).refine(b => b.maxCostBRL !== undefined || b.dailyBudgetBRL !== undefined, {
+  message: 'maxCostBRL or dailyBudgetBRL is required',
+});
+
+const retrySchema = z.object({
+  taskIds: z.array(z.string()).min(1).optional(),
+  issueType: z.string().optional(),
+  field: z.string().optional(),
+  error: z.string().trim().min(1).optional(), // trecho de lastError (case-insensitive)
+  strategy: strategySchema.optional(), // padrão: estratégia do batch
+}).default({});
+
+const listQuerySchema = z.object({
+  status: z.string().optional() // "PROCESSING" ou "PROCESSING,PAUSED"
+    .transform(v => v ? v.split(',').map(s => s.trim().toUpperCase()).filter(Boolean) : undefined),
+  phase: z.string().optional().transform(v => v?.toUpperCase()),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  fileName: z.string().trim().min(1).optional(),
+  strategy: strategySchema.optional(),
+  dryRun: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  minCostBRL: z.coerce.number().nonnegative().optional(),
+  tenantId: z.string().optional(), // só admin
+  sortBy: z.enum(['createdAt', 'updatedAt', 'completedAt', 'totalCostBRL', 'totalIssues', 'fileName']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+const rejectReviewSchema = z.object({
+  note: z.string().trim().min(1),
+});
+
+const editReviewSchema = z.object({
+  html: z.string().regex(/<table[\s\S]*<\/table>/i, 'html must contain a <table>'),
+  note: z.string().trim().optional(),
+});
+
+// Tasks que ainda vão passar pelo worker
+const remainingTasks = (progress: BatchProgress): number =>
+  Math.max(0, progress.totalTasks - progress.completedTasks - progress.failedTasks - progress.awaitingReview);
+
+// Resumo de um batch: mesmo formato no GET /:batchId e na listagem
+const summarizeBatch = (progress: BatchProgress, batch: Batch, etaMinutes?: number) => ({
+  ...progress,
+  estimatedTimeRemaining: etaMinutes,
+  fileName: batch.fileName,
+  createdAt: batch.createdAt,
+  startedAt: batch.startedAt,
+  completedAt: batch.completedAt,
+  dryRun: batch.dryRun,
+  audit: batch.auditSummary, // null enquanto a auditoria roda
+  auditProfile: batch.auditProfile,
+  auditRules: batch.auditRules, // regras efetivas da auditoria (null = padrão)
+  auditFields: batch.auditFields.length > 0 ? batch.auditFields : [...FIELDS_TO_AUDIT],
+  strategy: batch.strategy,
+  priority: batch.priority,
+  providers: batch.strategy.split(','),
+  budget: {
+    maxCostBRL: batch.maxCostBRL,
+    pauseReason: batch.pauseReason,
+    pausedAt: batch.pausedAt,
+  },
+  outputFileReady: !!batch.outputFilePath,
 });
 
 export const batchRoutes: FastifyPluginAsync = async (app) => {
 
+  // Escopo por tenant: batch de outro tenant responde 404 (não revela que existe)
+  app.addHook('preHandler', async (request, reply) => {
+    const { batchId } = (request.params ?? {}) as { batchId?: string };
+    if (!batchId) return;
+
+    const batch = await db.getBatch(batchId);
+    if (!batch || !canAccessBatch(request.auth, batch)) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+  });
+
   // ==========================================
-  // POST /upload - Upload JSON e criar batch
+  // GET / - Listar batches (filtros + paginação por cursor)
   // ==========================================
-  app.post('/upload', async (request, reply) => {
-    try {
-      const data = await request.file();
 
-      if (!data) {
-        return reply.status(400).send({ error: 'No file uploaded' });
-      }
+  app.get('/', async (request, reply) => {
+    const query = listQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: query.error.flatten() });
+    }
 
-      // Ler conteúdo do arquivo
-      const buffer = await data.toBuffer();
-      const content = buffer.toString('utf-8');
+    const { status, minCostBRL, tenantId, limit, cursor, ...filter } = query.data;
+    const { auth } = request;
 
-      // Parse JSON
-      let jsonData: Question[] | { questoes: Question[] };
-      try {
-        jsonData = JSON.parse(content);
-      } catch (e) {
-        return reply.status(400).send({ error: 'Invalid JSON file' });
+    // Cliente só vê o próprio tenant; admin vê todos ou filtra por tenantId
+    if (auth.role !== 'ADMIN' && !auth.tenantId) {
+      return { batches: [], nextCursor: null };
+    }
+    const scope = auth.role === 'ADMIN' ? tenantId : auth.tenantId;
+
+    if (cursor) {
+      const anchor = await db.getBatch(cursor);
+      if (!anchor || (scope !== undefined && anchor.tenantId !== scope)) {
+        return reply.status(400).send({ error: 'Invalid cursor' });
       }
+    }
+
+    // Uma linha a mais indica se existe próxima página
+    const rows = await db.listBatches({
+      ...filter,
+      tenantId: scope,
+      statuses: status,
+      minCostBRL,
+      limit: limit + 1,
+      cursor,
+    });
+
+    const batches = rows.slice(0, limit);
+    const progressById = await db.getBatchProgressMany(batches);
 
-      const questions = Array.isArray(jsonData) ? jsonData : (jsonData.questoes || []);
+    const historicalMs = batches.some(b => b.status === 'PROCESSING')
+      ? await db.getAverageTaskDurationMs()
+      : null;
 
-      if (questions.length === 0) {
-        return reply.status(400).send({ error: 'JSON has no questions' });
+    const summaries = await Promise.all(batches.map(async batch => {
+      const progress = progressById.get(batch.id)!;
+      const eta = progress.status === 'PROCESSING'
+        ? (await estimateEta(remainingTasks(progress), historicalMs)).minutes
+        : undefined;
+      return summarizeBatch(progress, batch, eta);
+    }));
+
+    return {
+      batches: summaries,
+      nextCursor: rows.length > limit ? batches[batches.length - 1].id : null,
+    };
+  });
+
+  // ==========================================
+  // POST /upload - Upload (JSON, NDJSON, CSV ou ZIP) e criar batch
+  // ==========================================
+  app.post('/upload', async (request, reply) => {
+    try {
+      const data = await request.file();
+
+      if (!data) {
+        return reply.status(400).send({ error: 'No file uploaded' });
       }
 
-      // Parse opções do form data
+      // Parse opções do form data (campos enviados antes do arquivo)
       const optionsRaw = data.fields?.options;
       const optionsStr = typeof optionsRaw === 'object' && 'value' in optionsRaw
         ? (optionsRaw as any).value
         : '{}';
-      const options = uploadOptionsSchema.parse(JSON.parse(optionsStr || '{}'));
+      const parsedOptions = uploadOptionsSchema.safeParse(JSON.parse(optionsStr || '{}'));
+      if (!parsedOptions.success) {
+        data.file.resume(); // descarta o arquivo
+        return reply.status(400).send({ error: 'Invalid options', details: parsedOptions.error.flatten() });
+      }
+      const options = parsedOptions.data;
+
+      // Regras de auditoria: cópia do perfil + overrides, gravada no batch
+      let auditRules: AuditRules | null = options.auditRules ?? null;
+      if (options.auditProfile) {
+        const profile = await db.findAuditProfile(request.auth.tenantId, options.auditProfile);
+        if (!profile) {
+          data.file.resume();
+          return reply.status(400).send({ error: `Audit profile not found: ${options.auditProfile}` });
+        }
+        auditRules = mergeAuditRules(profile.rules as AuditRules, options.auditRules);
+      }
 
-      // Salvar arquivo no disco
+      // Gravar o arquivo em streaming (sem carregar na memória)
       const fileName = data.filename || 'upload.json';
       const timestamp = Date.now();
       const inputFilePath = path.join(env.UPLOAD_DIR, `${timestamp}_${fileName}`);
 
       await fs.mkdir(env.UPLOAD_DIR, { recursive: true });
-      await fs.writeFile(inputFilePath, content);
+
+      try {
+        await pipeline(data.file, createWriteStream(inputFilePath));
+      } catch (error: any) {
+        await fs.rm(inputFilePath, { force: true });
+        if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
+          return reply.status(413).send({ error: `File exceeds ${env.MAX_FILE_SIZE_MB} MB` });
+        }
+        throw error;
+      }
+
+      // Arquivo completo só é validado na auditoria; aqui só o formato básico
+      const head = await readFileHead(inputFilePath);
+      const inputFormat = options.inputFormat ?? detectInputFormat(fileName, head);
+      if (!inputFormat) {
+        await fs.rm(inputFilePath, { force: true });
+        return reply.status(400).send({ error: 'Unsupported file format (use .json, .ndjson, .csv or .zip)' });
+      }
+      if (!getInputAdapter(inputFormat).sniff(head)) {
+        await fs.rm(inputFilePath, { force: true });
+        return reply.status(400).send({ error: `Invalid ${inputFormat.toUpperCase()} file` });
+      }
+
+      const { size: fileSize } = await fs.stat(inputFilePath);
 
       // Criar batch no banco
       const batch = await db.createBatch({
+        tenantId: request.auth.tenantId,
         fileName,
-        fileSize: buffer.length,
+        fileSize,
         inputFilePath,
+        inputFormat,
         strategy: options.strategy,
         dryRun: options.dryRun,
+        requireReview: options.requireReview,
+        maxCostBRL: options.maxCostBRL,
+        priority: options.priority,
+        maxConcurrency: options.maxConcurrency,
+        bypassCache: options.bypassCache,
+        auditProfile: options.auditProfile,
+        auditRules,
+        auditFields: options.fields,
       });
 
-      log.info('Batch created', { batchId: batch.id, fileName, questions: questions.length });
-
-      // Iniciar auditoria (síncrona, rápida)
-      await db.updateBatchStatus(batch.id, 'PROCESSING', 'AUDIT');
-
-      const auditStart = Date.now();
-      const report = auditData(jsonData);
-      const auditTime = Date.now() - auditStart;
-
-      log.info('Audit complete', {
+      // Auditoria em background (worker): a resposta não espera o arquivo ser lido
+      await db.updateBatchStatus(batch.id, 'PENDING', 'AUDIT');
+      await addAuditJob({
         batchId: batch.id,
-        time: auditTime,
-        issues: report.issues.length,
-        bad: report.stats.bad,
-        warn: report.stats.warn,
-      });
-
-      // Filtrar issues por severidade
-      const filteredIssues = options.severityFilter === 'ALL'
-        ? report.issues
-        : report.issues.filter(i =>
-            options.severityFilter === 'BAD' ? i.severity === 'BAD' : true
-          );
-
-      // Atualizar contadores do batch
-      await db.updateBatchCounters(batch.id, {
-        totalQuestions: questions.length,
-        totalTables: report.stats.totalTables,
-        totalIssues: filteredIssues.length,
+        severityFilter: options.severityFilter,
+        autoFix: options.autoFix,
       });
 
-      // Se dryRun, parar aqui
-      if (options.dryRun) {
-        await db.updateBatchStatus(batch.id, 'COMPLETED', 'DONE');
-        return {
-          batchId: batch.id,
-          status: 'COMPLETED',
-          dryRun: true,
-          audit: {
-            time: auditTime,
-            totalTables: report.stats.totalTables,
-            bad: report.stats.bad,
-            warn: report.stats.warn,
-            issues: filteredIssues.length,
-          },
-        };
-      }
-
-      // Criar tasks para cada issue (deduplicadas por tabela)
-      const taskMap = new Map<string, JobPayload>();
-
-      for (const issue of filteredIssues) {
-        const key = `${issue.questionIndex}-${issue.field}-${issue.tableIndex}`;
-
-        if (!taskMap.has(key)) {
-          const q = questions[issue.questionIndex];
-          const context: RepairContext = {
-            materia: q?.materia,
-            assunto: q?.assunto,
-            topico: q?.topico,
-            enunciado: q?.enunciado?.substring(0, 1000),
-            texto_associado: q?.texto_associado?.substring(0, 2000),
-            qid: issue.qid,
-            field: issue.field,
-          };
-
-          const task = await db.createTask({
-            batchId: batch.id,
-            questionIndex: issue.questionIndex,
-            qid: String(issue.qid),
-            field: issue.field,
-            tableIndex: issue.tableIndex,
-            taskType: 'REPAIR',
-            issueType: issue.type,
-            severity: issue.severity,
-            rawHtml: issue.rawHtml,
-            context,
-          });
-
-          taskMap.set(key, {
-            taskId: task.id,
-            batchId: batch.id,
-            questionIndex: issue.questionIndex,
-            qid: String(issue.qid),
-            field: issue.field,
-            tableIndex: issue.tableIndex,
-            rawHtml: issue.rawHtml,
-            context,
-            attempt: 0,
-          });
-        }
-      }
-
-      // Enfileirar jobs
-      const jobs = Array.from(taskMap.values());
-      await addBulkRepairJobs(jobs);
+      log.info('Batch created, audit queued', { batchId: batch.id, fileName, fileSize, inputFormat });
 
-      await db.updateBatchStatus(batch.id, 'PROCESSING', 'REPAIR');
-
-      log.info('Jobs queued', { batchId: batch.id, jobs: jobs.length });
-
-      return {
+      return reply.status(202).send({
         batchId: batch.id,
-        status: 'PROCESSING',
-        totalQuestions: questions.length,
-        totalIssues: filteredIssues.length,
-        tasksCreated: jobs.length,
-        estimatedTime: Math.ceil(jobs.length * 5 / 60), // ~5s por task, em minutos
-      };
+        status: 'PENDING',
+        phase: 'AUDIT',
+        fileName,
+        fileSize,
+        inputFormat,
+        dryRun: options.dryRun,
+        auditProfile: options.auditProfile ?? null,
+        auditFields: options.fields ?? [...FIELDS_TO_AUDIT],
+      });
 
     } catch (error: any) {
       log.error('Upload error', { error: error.message });
@@ -195,23 +316,59 @@ export const batchRoutes: FastifyPluginAsync = async (app) => {
   app.get('/:batchId', async (request, reply) => {
     const { batchId } = request.params as { batchId: string };
 
-    const progress = await db.getBatchProgress(batchId);
+    const [progress, batch] = await Promise.all([
+      db.getBatchProgress(batchId),
+      db.getBatch(batchId),
+    ]);
 
-    if (!progress) {
+    if (!progress || !batch) {
       return reply.status(404).send({ error: 'Batch not found' });
     }
 
+    const estimatedTimeRemaining = progress.status === 'PROCESSING'
+      ? (await estimateEta(remainingTasks(progress))).minutes
+      : undefined;
+
+    return summarizeBatch(progress, batch, estimatedTimeRemaining);
+  });
+
+  // ==========================================
+  // GET /:batchId/stream - Progresso ao vivo (WebSocket)
+  // ==========================================
+  app.get('/:batchId/stream', { websocket: true }, async (socket, request) => {
+    const { batchId } = request.params as { batchId: string };
+
     const batch = await db.getBatch(batchId);
 
-    return {
-      ...progress,
-      fileName: batch?.fileName,
-      createdAt: batch?.createdAt,
-      startedAt: batch?.startedAt,
-      completedAt: batch?.completedAt,
-      strategy: batch?.strategy,
-      outputFileReady: !!batch?.outputFilePath,
+    if (!batch) {
+      socket.send(JSON.stringify({ type: 'error', error: 'Batch not found' }));
+      socket.close(1008, 'Batch not found');
+      return;
+    }
+
+    const send = (event: object) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(event));
+      }
     };
+
+    let closeStream: (() => Promise<void>) | null = null;
+    let socketClosed = false;
+
+    socket.on('close', () => {
+      socketClosed = true;
+      closeStream?.().catch((error: any) => {
+        log.warn('Stream close error', { batchId, error: error.message });
+      });
+    });
+
+    try {
+      closeStream = await openBatchStream(batchId, send);
+      if (socketClosed) await closeStream();
+    } catch (error: any) {
+      log.error('Stream error', { batchId, error: error.message });
+      socket.close(1011, 'Stream error');
+    }
   });
 
   // ==========================================
@@ -239,11 +396,10 @@ export const batchRoutes: FastifyPluginAsync = async (app) => {
     }
 
     try {
-      const content = await fs.readFile(batch.outputFilePath, 'utf-8');
-      const outputFileName = batch.fileName.replace('.json', '_POS_TABELA.json');
+      const content = await fs.readFile(batch.outputFilePath);
 
-      reply.header('Content-Type', 'application/json');
-      reply.header('Content-Disposition', `attachment; filename="${outputFileName}"`);
+      reply.header('Content-Type', getInputAdapter(batch.inputFormat).contentType);
+      reply.header('Content-Disposition', `attachment; filename="${outputFileName(batch.fileName)}"`);
 
       return content;
     } catch (error) {
@@ -285,6 +441,206 @@ export const batchRoutes: FastifyPluginAsync = async (app) => {
     };
   });
 
+  // ==========================================
+  // POST /:batchId/retry - Re-enfileirar tasks FAILED
+  // ==========================================
+  app.post('/:batchId/retry', async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+
+    const body = retrySchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const batch = await db.getBatch(batchId);
+
+    if (!batch) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+
+    if (batch.status === 'CANCELLED' || batch.status === 'PAUSED') {
+      return reply.status(409).send({ error: 'Cannot retry batch', status: batch.status });
+    }
+
+    const { taskIds, issueType, field, error, strategy } = body.data;
+    const ids = taskIds ? new Set(taskIds) : null;
+    const needle = error?.toLowerCase();
+
+    const failed = await db.getTasksByBatch(batchId, 'FAILED');
+    const selected = failed.filter(t =>
+      (!ids || ids.has(t.id))
+      && (!issueType || t.issueType === issueType)
+      && (!field || t.field === field)
+      && (!needle || !!t.lastError?.toLowerCase().includes(needle))
+    );
+
+    if (selected.length === 0) {
+      return reply.status(404).send({ error: 'No failed tasks match the filters', failedTasks: failed.length });
+    }
+
+    const reset = await db.resetTasksForRetry(selected.map(t => t.id));
+    await db.incrementBatchCounters(batchId, { failedCount: -reset });
+
+    await requeueRepairJobs(selected.map((task): JobPayload => ({
+      taskId: task.id,
+      batchId,
+      questionIndex: task.questionIndex,
+      qid: task.qid || '',
+      field: task.field,
+      tableIndex: task.tableIndex,
+      rawHtml: repairInputHtml(task),
+      context: task.context as unknown as RepairContext,
+      ...(strategy ? { strategy } : {}),
+    })), { tenantId: batch.tenantId, priority: batch.priority as BatchPriority });
+
+    // O arquivo de saída é regenerado quando as tasks terminarem (checkBatchCompletion)
+    await db.updateBatchStatus(batchId, 'PROCESSING', 'REPAIR');
+    await db.createLog(batchId, 'INFO', `Retrying ${selected.length} failed task(s)`, {
+      metadata: { taskIds: selected.map(t => t.id), issueType, field, error, strategy },
+    });
+
+    log.info('Batch retry', { batchId, tasks: selected.length, strategy });
+
+    return {
+      batchId,
+      status: 'PROCESSING',
+      retried: selected.length,
+      strategy: strategy ?? batch.strategy,
+      estimatedTime: (await estimateEta(selected.length)).minutes,
+    };
+  });
+
+  // ==========================================
+  // PAUSA / RETOMADA (apenas os jobs deste batch)
+  // ==========================================
+
+  const resumeBatch = async (batchId: string, message: string) => {
+    await db.updateBatchStatus(batchId, 'PROCESSING');
+    const jobsReleased = await releaseBatchJobs(batchId);
+
+    // ETA recalculada com o que falta
+    const progress = await db.getBatchProgress(batchId);
+    const eta = await estimateEta(progress ? remainingTasks(progress) : 0);
+
+    await db.createLog(batchId, 'INFO', message, {
+      metadata: { jobsReleased, etaMinutes: eta.minutes },
+    });
+
+    log.info('Batch resumed', { batchId, jobsReleased });
+    return { jobsReleased, eta };
+  };
+
+  // POST /:batchId/pause - Reter os jobs do batch na fila
+  app.post('/:batchId/pause', async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+
+    const batch = await db.getBatch(batchId);
+
+    if (!batch) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+
+    const paused = await db.pauseBatch(batchId, 'MANUAL');
+    if (!paused) {
+      return reply.status(409).send({ error: 'Cannot pause batch', status: batch.status });
+    }
+
+    const jobsHeld = await holdBatchJobs(batchId);
+    await db.createLog(batchId, 'INFO', 'Batch paused by operator', {
+      metadata: { jobsHeld },
+    });
+
+    log.info('Batch paused', { batchId, jobsHeld });
+
+    return { batchId, status: 'PAUSED', jobsHeld };
+  });
+
+  // POST /:batchId/resume - Liberar os jobs retidos
+  app.post('/:batchId/resume', async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+
+    const batch = await db.getBatch(batchId);
+
+    if (!batch) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+
+    if (batch.status !== 'PAUSED') {
+      return reply.status(409).send({ error: 'Batch is not paused', status: batch.status });
+    }
+
+    // Pausado por custo: retomar sem orçamento só pausaria de novo
+    const exceeded = await checkBudget(batch);
+    if (exceeded) {
+      return reply.status(409).send({
+        error: 'Budget exceeded, raise it via PATCH /:batchId/budget',
+        ...exceeded,
+      });
+    }
+
+    const { jobsReleased, eta } = await resumeBatch(batchId, 'Batch resumed by operator');
+
+    return {
+      batchId,
+      status: 'PROCESSING',
+      jobsReleased,
+      estimatedTime: eta.minutes,
+      eta,
+    };
+  });
+
+  // ==========================================
+  // PATCH /:batchId/budget - Ajustar orçamento (e retomar batch pausado por custo)
+  // ==========================================
+  app.patch('/:batchId/budget', async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+
+    const body = budgetSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    let batch = await db.getBatch(batchId);
+
+    if (!batch) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+
+    if (body.data.maxCostBRL !== undefined) {
+      batch = await db.setBatchBudget(batchId, body.data.maxCostBRL);
+    }
+    if (body.data.dailyBudgetBRL !== undefined) {
+      await db.setDailyLimit(body.data.dailyBudgetBRL);
+    }
+
+    await db.createLog(batchId, 'INFO', 'Budget updated', {
+      metadata: { maxCostBRL: body.data.maxCostBRL, dailyBudgetBRL: body.data.dailyBudgetBRL },
+    });
+
+    const pausedByBudget = batch.status === 'PAUSED' && !!batch.pauseReason?.startsWith('BUDGET');
+    let jobsReleased = 0;
+
+    if (pausedByBudget && body.data.resume) {
+      const exceeded = await checkBudget(batch);
+      if (exceeded) {
+        return reply.status(409).send({ error: 'Budget still exceeded', ...exceeded });
+      }
+
+      ({ jobsReleased } = await resumeBatch(batchId, 'Batch resumed after budget update'));
+    }
+
+    const updated = await db.getBatch(batchId);
+
+    return {
+      batchId,
+      status: updated?.status,
+      maxCostBRL: updated?.maxCostBRL,
+      totalCostBRL: updated?.totalCostBRL,
+      daily: await getDailyBudget(),
+      jobsReleased,
+    };
+  });
+
   // ==========================================
   // GET /:batchId/issues - Listar issues
   // ==========================================
@@ -313,6 +669,7 @@ export const batchRoutes: FastifyPluginAsync = async (app) => {
         qid: t.qid,
         field: t.field,
         tableIndex: t.tableIndex,
+        tableSpan: t.tableSpan,
         type: t.issueType,
         severity: t.severity,
         status: t.status,
@@ -323,6 +680,207 @@ export const batchRoutes: FastifyPluginAsync = async (app) => {
     };
   });
 
+  // ==========================================
+  // GET /:batchId/tasks/:taskId/diff - Diff original x reparado
+  // ==========================================
+  app.get('/:batchId/tasks/:taskId/diff', async (request, reply) => {
+    const { batchId, taskId } = request.params as { batchId: string; taskId: string };
+    const { format = 'json' } = request.query as any;
+
+    const task = await db.getTask(taskId);
+
+    if (!task || task.batchId !== batchId) {
+      return reply.status(404).send({ error: 'Task not found' });
+    }
+
+    const originalGrid = tableToGrid(repairInputHtml(task));
+    const repairedGrid = task.repairedHtml ? tableToGrid(task.repairedHtml) : null;
+    const diff = repairedGrid ? diffGrids(originalGrid, repairedGrid) : null;
+    const html = repairedGrid && diff ? renderDiffHtml(originalGrid, repairedGrid, diff) : null;
+
+    if (format === 'html') {
+      if (!html) {
+        return reply.status(404).send({ error: 'Task has no repaired table yet', status: task.status });
+      }
+      reply.header('Content-Type', 'text/html; charset=utf-8');
+      return html;
+    }
+
+    return {
+      batchId,
+      taskId,
+      status: task.status,
+      provider: task.provider,
+      issueType: task.issueType,
+      original: {
+        html: task.rawHtml,
+        grid: originalGrid,
+      },
+      repaired: repairedGrid ? {
+        html: task.repairedHtml,
+        grid: repairedGrid,
+      } : null,
+      diff,
+      html,
+    };
+  });
+
+  // ==========================================
+  // REVISÃO HUMANA (batches com requireReview)
+  // ==========================================
+
+  const loadReviewableTask = async (batchId: string, taskId: string) => {
+    const task = await db.getTask(taskId);
+    if (!task || task.batchId !== batchId) {
+      return { error: { status: 404, body: { error: 'Task not found' } } };
+    }
+    if (task.status !== 'AWAITING_REVIEW') {
+      return { error: { status: 409, body: { error: 'Task is not awaiting review', status: task.status } } };
+    }
+    return { task };
+  };
+
+  // GET /:batchId/reviews - Tasks aguardando revisão
+  app.get('/:batchId/reviews', async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+    const { limit = '50', offset = '0' } = request.query as any;
+
+    const batch = await db.getBatch(batchId);
+
+    if (!batch) {
+      return reply.status(404).send({ error: 'Batch not found' });
+    }
+
+    const tasks = await db.getTasksByBatch(batchId, 'AWAITING_REVIEW');
+    const paginated = tasks.slice(parseInt(offset), parseInt(offset) + parseInt(limit));
+
+    return {
+      total: tasks.length,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+      requireReview: batch.requireReview,
+      reviews: paginated.map(t => ({
+        id: t.id,
+        questionIndex: t.questionIndex,
+        qid: t.qid,
+        field: t.field,
+        tableIndex: t.tableIndex,
+        tableSpan: t.tableSpan,
+        type: t.issueType,
+        severity: t.severity,
+        provider: t.provider,
+        attempts: t.attempts,
+        reviewNote: t.reviewNote,
+        rawHtml: t.rawHtml,
+        repairedHtml: t.repairedHtml,
+      })),
+    };
+  });
+
+  // POST /:batchId/tasks/:taskId/approve - Aprovar reparo
+  app.post('/:batchId/tasks/:taskId/approve', async (request, reply) => {
+    const { batchId, taskId } = request.params as { batchId: string; taskId: string };
+
+    const { task, error } = await loadReviewableTask(batchId, taskId);
+    if (error) return reply.status(error.status).send(error.body);
+
+    await db.updateTaskStatus(task.id, 'APPROVED');
+    const batch = await db.getBatch(batchId);
+    if (batch) await storeRepair(batch, task, task.repairedHtml ?? '', task.provider);
+    await db.createLog(batchId, 'INFO', 'Repair approved by reviewer', {
+      taskId,
+      questionIndex: task.questionIndex,
+      field: task.field,
+    });
+
+    await checkBatchCompletion(batchId);
+
+    return { batchId, taskId, status: 'APPROVED' };
+  });
+
+  // POST /:batchId/tasks/:taskId/reject - Rejeitar e re-enfileirar com a nota do revisor
+  app.post('/:batchId/tasks/:taskId/reject', async (request, reply) => {
+    const { batchId, taskId } = request.params as { batchId: string; taskId: string };
+
+    const body = rejectReviewSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const { task, error } = await loadReviewableTask(batchId, taskId);
+    if (error) return reply.status(error.status).send(error.body);
+
+    const context = {
+      ...(task.context as unknown as RepairContext),
+      reviewerNote: body.data.note,
+    };
+
+    await db.updateTaskStatus(task.id, 'REJECTED', {
+      reviewNote: body.data.note,
+      attempts: 0,
+    });
+    await db.incrementBatchCounters(batchId, { successCount: -1 });
+
+    // Hit do cache rejeitado: a entrada está errada para esta tabela
+    const batch = await db.getBatch(batchId);
+    const evicted = batch ? await evictCachedRepair(batch, task) : false;
+
+    // Re-enfileira pelo fair share do tenant (prioridade 0 furaria a fila)
+    await requeueRepairJob({
+      taskId: task.id,
+      batchId,
+      questionIndex: task.questionIndex,
+      qid: task.qid || '',
+      field: task.field,
+      tableIndex: task.tableIndex,
+      rawHtml: repairInputHtml(task),
+      context,
+    }, { tenantId: batch?.tenantId ?? null, priority: (batch?.priority ?? 'normal') as BatchPriority });
+
+    // Batch pausado continua pausado: o job fica retido até a retomada
+    if (batch?.status !== 'PAUSED') {
+      await db.updateBatchStatus(batchId, 'PROCESSING', 'REPAIR');
+    }
+    await db.createLog(batchId, 'INFO', 'Repair rejected by reviewer, re-queued', {
+      taskId,
+      questionIndex: task.questionIndex,
+      field: task.field,
+      metadata: { note: body.data.note, ...(evicted ? { evictedFromCache: true } : {}) },
+    });
+
+    return { batchId, taskId, status: 'REJECTED', requeued: true };
+  });
+
+  // POST /:batchId/tasks/:taskId/edit - Salvar HTML editado à mão (aprovado)
+  app.post('/:batchId/tasks/:taskId/edit', async (request, reply) => {
+    const { batchId, taskId } = request.params as { batchId: string; taskId: string };
+
+    const body = editReviewSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const { task, error } = await loadReviewableTask(batchId, taskId);
+    if (error) return reply.status(error.status).send(error.body);
+
+    await db.updateTaskStatus(task.id, 'APPROVED', {
+      repairedHtml: body.data.html.trim(),
+      provider: 'human',
+      ...(body.data.note ? { reviewNote: body.data.note } : {}),
+    });
+    const batch = await db.getBatch(batchId);
+    if (batch) await storeRepair(batch, task, body.data.html.trim(), 'human');
+    await db.createLog(batchId, 'INFO', 'Repair replaced by reviewer edit', {
+      taskId,
+      questionIndex: task.questionIndex,
+      field: task.field,
+    });
+
+    await checkBatchCompletion(batchId);
+
+    return { batchId, taskId, status: 'APPROVED', provider: 'human' };
+  });
+
   // ==========================================
   // GET /:batchId/logs - Logs do batch
   // ==========================================
@@ -0,0 +1,75 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { db } from '../../services/dbService.js';
+import { auditRulesSchema } from '../../services/auditRules.js';
+import { createLogger } from '../../utils/logger.js';
+import type { AuditProfile } from '@prisma/client';
+
+const log = createLogger('profileRoutes');
+
+// Schemas de validação
+const profileNameSchema = z.string().regex(/^[A-Za-z0-9_.-]{1,64}$/, 'name must be 1-64 chars of [A-Za-z0-9_.-]');
+
+const toResponse = (profile: AuditProfile) => ({
+  id: profile.id,
+  name: profile.name,
+  scope: profile.tenantId ? 'tenant' : 'global',
+  rules: profile.rules,
+  createdAt: profile.createdAt,
+  updatedAt: profile.updatedAt,
+});
+
+// Perfis de regras de auditoria. Cada chave grava no próprio tenant;
+// chaves admin sem tenant gravam perfis globais (somente leitura para os tenants).
+export const profileRoutes: FastifyPluginAsync = async (app) => {
+
+  app.get('/', async (request) => {
+    const profiles = await db.listAuditProfiles(request.auth.tenantId);
+
+    return {
+      total: profiles.length,
+      profiles: profiles.map(toResponse),
+    };
+  });
+
+  app.get('/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+
+    const profile = await db.findAuditProfile(request.auth.tenantId, name);
+    if (!profile) {
+      return reply.status(404).send({ error: 'Audit profile not found' });
+    }
+
+    return toResponse(profile);
+  });
+
+  // PUT /:name - Cria ou substitui o perfil (batches já criados guardam a própria cópia)
+  app.put('/:name', async (request, reply) => {
+    const name = profileNameSchema.safeParse((request.params as { name: string }).name);
+    if (!name.success) {
+      return reply.status(400).send({ error: 'Invalid profile name', details: name.error.flatten() });
+    }
+
+    const body = auditRulesSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid body', details: body.error.flatten() });
+    }
+
+    const profile = await db.saveAuditProfile(request.auth.tenantId, name.data, body.data);
+    log.info('Audit profile saved', { name: profile.name, tenantId: profile.tenantId });
+
+    return toResponse(profile);
+  });
+
+  app.delete('/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+
+    const deleted = await db.deleteAuditProfile(request.auth.tenantId, name);
+    if (!deleted) {
+      return reply.status(404).send({ error: 'Audit profile not found' });
+    }
+
+    log.info('Audit profile deleted', { name, tenantId: request.auth.tenantId });
+    return { name, deleted: true };
+  });
+};
@@ -6,7 +6,11 @@ import { env, isDev } from './config/env.js';
 import { logger, createLogger } from './utils/logger.js';
 import { db } from './services/dbService.js';
 import { closeQueue } from './config/queue.js';
+import { closeEvents } from './services/eventService.js';
+import { authPlugin } from './api/plugins/auth.plugin.js';
 import { batchRoutes } from './api/routes/batch.routes.js';
+import { adminRoutes } from './api/routes/admin.routes.js';
+import { profileRoutes } from './api/routes/profile.routes.js';
 import { healthRoutes } from './api/routes/health.routes.js';
 
 const log = createLogger('app');
@@ -22,9 +26,10 @@ const app = Fastify({
 });
 
 // Registrar plugins
+// Autenticação é por chave de API (header), não por cookie: sem credentials
 await app.register(cors, {
-  origin: true, // Allow all origins (can restrict later)
-  credentials: true,
+  origin: env.CORS_ORIGINS ? env.CORS_ORIGINS.split(',').map(o => o.trim()) : isDev,
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 });
 
 await app.register(multipart, {
@@ -37,7 +42,14 @@ await app.register(websocket);
 
 // Registrar rotas
 await app.register(healthRoutes, { prefix: '/api' });
-await app.register(batchRoutes, { prefix: '/api/v1/batch' });
+
+// API v1: todas as rotas exigem chave de API
+await app.register(async (api) => {
+  await api.register(authPlugin);
+  await api.register(batchRoutes, { prefix: '/batch' });
+  await api.register(adminRoutes, { prefix: '/admin' });
+  await api.register(profileRoutes, { prefix: '/audit-profiles' });
+}, { prefix: '/api/v1' });
 
 // Error handler global
 app.setErrorHandler((error, request, reply) => {
@@ -60,6 +72,7 @@ const shutdown = async (signal: string) => {
   try {
     await app.close();
     await closeQueue();
+    await closeEvents();
     await db.disconnect();
     log.info('Shutdown complete');
     process.exit(0);
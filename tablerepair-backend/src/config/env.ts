@@ -15,15 +15,44 @@ const envSchema = z.object({
   // API Keys
   GEMINI_API_KEY: z.string().optional(),
   OPENROUTER_API_KEY: z.string().optional(),
+  OPENROUTER_KEYS: z.string().default(''), // "sk-or-v1-xxx,sk-or-v1-yyy" (rotação)
+
+  // Provedores de IA (modelos)
+  GOOGLE_MODEL: z.string().default('gemini-3-flash-preview'),
+  OPENROUTER_MODEL: z.string().default('google/gemini-3-flash-preview'),
+
+  // Endpoint compatível com OpenAI (llama.cpp, vLLM, Ollama...)
+  OPENAI_COMPAT_BASE_URL: z.string().url().optional(), // ex: http://localhost:8080/v1
+  OPENAI_COMPAT_API_KEY: z.string().optional(),
+  OPENAI_COMPAT_MODEL: z.string().default('local-model'),
+
+  // Provider mock (testes / demos offline)
+  MOCK_FIXTURES_DIR: z.string().default('./fixtures/mock-provider'),
+
+  // Cadeia padrão de provedores (ordem de fallback)
+  DEFAULT_PROVIDER_CHAIN: z.string().default('google,openrouter'),
+
+  // Custos
+  USD_TO_BRL: z.coerce.number().positive().default(6.00),
+  PRICING_OVERRIDES: z.string().optional(), // JSON: {"provider:model": {"input": 0.1, "output": 0.4}}
+  DAILY_BUDGET_BRL: z.coerce.number().nonnegative().default(0), // 0 = sem limite (dia em UTC)
 
   // Server
   PORT: z.coerce.number().default(3001),
   HOST: z.string().default('0.0.0.0'),
+  CORS_ORIGINS: z.string().optional(), // "https://app.exemplo.com,https://admin.exemplo.com"
+
+  // Autenticação
+  ADMIN_API_KEYS: z.string().default(''), // chaves admin de bootstrap (separadas por vírgula)
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 
   // Workers
   WORKER_CONCURRENCY: z.coerce.number().default(8),
+  MAX_CONCURRENT_PER_BATCH: z.coerce.number().int().nonnegative().default(0), // 0 = sem limite
   MAX_RETRY_ATTEMPTS: z.coerce.number().default(3),
+  AUDIT_CHUNK_SIZE: z.coerce.number().int().positive().default(500), // tasks por createMany na auditoria
+  AUDIT_THREADS: z.coerce.number().int().nonnegative().optional(), // padrão: núcleos - 1 (0 = sem threads)
+  AUDIT_SHARD_SIZE: z.coerce.number().int().positive().default(200), // questões por shard de auditoria
 
   // Rate Limiting
   RATE_LIMIT_PER_MINUTE: z.coerce.number().default(60),
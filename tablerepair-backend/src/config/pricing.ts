@@ -0,0 +1,69 @@
+import { env } from './env.js';
+import { createLogger } from '../utils/logger.js';
+import type { ProviderPricing } from '../utils/types.js';
+
+const log = createLogger('pricing');
+
+// ==========================================
+// TABELA DE PREÇOS (USD por 1M tokens)
+// ==========================================
+
+// Fallback para modelos sem preço conhecido (valor do projeto original)
+export const DEFAULT_PRICING: ProviderPricing = {
+  inputUSDPerMillion: 0.10,
+  outputUSDPerMillion: 0.40,
+};
+
+export const FREE_PRICING: ProviderPricing = {
+  inputUSDPerMillion: 0,
+  outputUSDPerMillion: 0,
+};
+
+// provider -> modelo -> preço ('*' = qualquer modelo do provider)
+const MODEL_PRICING: Record<string, Record<string, ProviderPricing>> = {
+  google: {
+    'gemini-3-flash-preview': { inputUSDPerMillion: 0.50, outputUSDPerMillion: 3.00 },
+    'gemini-2.5-flash': { inputUSDPerMillion: 0.30, outputUSDPerMillion: 2.50 },
+    'gemini-2.5-flash-lite': { inputUSDPerMillion: 0.10, outputUSDPerMillion: 0.40 },
+    'gemini-2.5-pro': { inputUSDPerMillion: 1.25, outputUSDPerMillion: 10.00 },
+    'gemini-2.0-flash': { inputUSDPerMillion: 0.10, outputUSDPerMillion: 0.40 },
+  },
+  openrouter: {
+    'google/gemini-3-flash-preview': { inputUSDPerMillion: 0.50, outputUSDPerMillion: 3.00 },
+    'google/gemini-2.5-flash': { inputUSDPerMillion: 0.30, outputUSDPerMillion: 2.50 },
+    'google/gemini-2.0-flash-001': { inputUSDPerMillion: 0.10, outputUSDPerMillion: 0.40 },
+  },
+  // Servidor próprio / testes: sem custo por token
+  'openai-compatible': { '*': FREE_PRICING },
+  mock: { '*': FREE_PRICING },
+};
+
+// Sobrescritas via PRICING_OVERRIDES='{"openrouter:anthropic/claude-sonnet-4": {"input": 3, "output": 15}}'
+const parseOverrides = (raw: string | undefined): Record<string, ProviderPricing> => {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, { input: number; output: number }>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([key, p]) => [key, { inputUSDPerMillion: Number(p.input), outputUSDPerMillion: Number(p.output) }])
+    );
+  } catch (error: any) {
+    log.error('PRICING_OVERRIDES inválido, ignorando', { error: error.message });
+    return {};
+  }
+};
+
+const overrides = parseOverrides(env.PRICING_OVERRIDES);
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+export const getPricing = (provider: string, model: string): ProviderPricing =>
+  overrides[`${provider}:${model}`]
+  ?? overrides[`${provider}:*`]
+  ?? MODEL_PRICING[provider]?.[model]
+  ?? MODEL_PRICING[provider]?.['*']
+  ?? DEFAULT_PRICING;
+
+export const toBRL = (usd: number): number => usd * env.USD_TO_BRL;
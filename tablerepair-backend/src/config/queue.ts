@@ -1,8 +1,8 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Queue, QueueEvents, Job } from 'bullmq';
 import Redis from 'ioredis';
 import { env } from './env.js';
 import { createLogger } from '../utils/logger.js';
-import type { JobPayload } from '../utils/types.js';
+import type { AuditJobPayload, BatchPriority, JobPayload } from '../utils/types.js';
 
 const log = createLogger('queue');
 
@@ -37,52 +37,218 @@ export const repairQueue = new Queue<JobPayload>('repair', {
   },
 });
 
+// Auditoria de uploads (uma execução por batch: reexecutar duplicaria as tasks)
+export const auditQueue = new Queue<AuditJobPayload>('audit', {
+  connection,
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: {
+      age: 3600 * 24,
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 3600 * 24 * 7,
+    },
+  },
+});
+
 // Eventos da fila (para WebSocket)
 export const repairQueueEvents = new QueueEvents('repair', { connection });
 
 // ==========================================
-// HELPERS
+// FAIR SHARE (prioridade por tempo virtual)
 // ==========================================
 
-export async function addRepairJob(payload: JobPayload, priority: number = 0): Promise<Job<JobPayload>> {
-  const job = await repairQueue.add('repair-table', payload, {
-    priority,
-    jobId: payload.taskId, // Usar taskId como jobId para rastreamento
-  });
+// No BullMQ, menor prioridade = roda antes. Cada job de um tenant avança o "tempo virtual"
+// do tenant em PRIORITY_STRIDE; um batch novo começa no relógio global (tempo virtual do
+// último job que saiu da fila), então os tenants se intercalam em vez de um upload grande
+// segurar todos os outros até terminar. O relógio fica no Redis e nunca volta: a fila
+// esvaziar não zera o tempo de ninguém.
+//
+// O tempo virtual é absoluto e vai no job (JobPayload.virtualTime); a prioridade do BullMQ
+// é virtualTime - base. Quando o relógio se afasta da base, a base avança até ele e os jobs
+// que ainda não rodaram são repriorizados (rebase), longe do limite do BullMQ.
+const PRIORITY_STRIDE: Record<BatchPriority, number> = { high: 1, normal: 2, low: 4 };
+const MAX_PRIORITY = 2 ** 21 - 1; // limite do BullMQ
+const REBASE_THRESHOLD = Math.floor(MAX_PRIORITY / 2);
 
-  log.debug('Job adicionado à fila', {
-    jobId: job.id,
-    taskId: payload.taskId,
-    questionIndex: payload.questionIndex,
-  });
+const TENANT_VT_PREFIX = 'tablerepair:fair:vt:';
+const TENANT_VT_TTL_SECONDS = 24 * 3600;
+const FAIR_CLOCK_KEY = 'tablerepair:fair:clock'; // ZSET de um membro: ZADD GT só avança
+const FAIR_CLOCK_MEMBER = 'clock';
+const FAIR_BASE_KEY = 'tablerepair:fair:base';
+const FAIR_REBASE_LOCK_KEY = 'tablerepair:fair:rebase-lock';
+const FAIR_REBASE_LOCK_SECONDS = 5 * 60;
+
+// Concorrência por batch: ZSET jobId -> início; entradas mais velhas que o TTL são de
+// workers que morreram e saem na próxima tentativa de qualquer job do batch
+const BATCH_ACTIVE_PREFIX = 'tablerepair:active:';
+const BATCH_SLOT_TTL_MS = 15 * 60 * 1000;
+
+export interface FairScheduling {
+  tenantId: string | null;
+  priority: BatchPriority;
+}
+
+export interface FairSlot {
+  virtualTime: number;
+  priority: number;
+}
+
+const DEFAULT_SCHEDULING: FairScheduling = { tenantId: null, priority: 'normal' };
+
+const readVirtualClock = async (): Promise<number> =>
+  Number(await connection.zscore(FAIR_CLOCK_KEY, FAIR_CLOCK_MEMBER)) || 0;
+
+const readPriorityBase = async (): Promise<number> =>
+  Number(await connection.get(FAIR_BASE_KEY)) || 0;
+
+// Prioridade 0 = sem prioridade (furaria a fila), então o mínimo é 1
+const toPriority = (virtualTime: number, base: number): number =>
+  Math.max(1, Math.min(MAX_PRIORITY, virtualTime - base));
+
+// Move a base até o relógio e recalcula a prioridade dos jobs que ainda não rodaram
+async function rebasePriorities(): Promise<void> {
+  const locked = await connection.set(FAIR_REBASE_LOCK_KEY, '1', 'EX', FAIR_REBASE_LOCK_SECONDS, 'NX');
+  if (!locked) return; // outro processo já está fazendo
+
+  try {
+    const [base, current] = await Promise.all([readVirtualClock(), readPriorityBase()]);
+    if (base - current <= REBASE_THRESHOLD) return;
+
+    await connection.set(FAIR_BASE_KEY, String(base));
+
+    let changed = 0;
+    for (const job of await repairQueue.getJobs(['prioritized', 'delayed'])) {
+      if (job.data.virtualTime === undefined) continue;
+      const priority = toPriority(job.data.virtualTime, base);
+      if (priority === job.opts.priority) continue;
+      try {
+        await job.changePriority({ priority });
+        changed++;
+      } catch (error: any) {
+        // Saiu da fila nesse meio tempo
+        log.debug('Job não repriorizado', { jobId: job.id, error: error.message });
+      }
+    }
+
+    log.info('Fair share rebased', { base, jobs: changed });
+  } finally {
+    await connection.del(FAIR_REBASE_LOCK_KEY);
+  }
+}
+
+// Avança o relógio até o tempo virtual do job que saiu da fila (nunca volta)
+export async function advanceVirtualClock(virtualTime: number): Promise<void> {
+  await connection.zadd(FAIR_CLOCK_KEY, 'GT', virtualTime, FAIR_CLOCK_MEMBER);
+  if (virtualTime - (await readPriorityBase()) > REBASE_THRESHOLD) await rebasePriorities();
+}
+
+// Reserva `count` tempos virtuais para o tenant (a partir de max(relógio, último job do tenant))
+export async function reserveFairPriorities(scheduling: FairScheduling, count: number): Promise<FairSlot[]> {
+  const key = `${TENANT_VT_PREFIX}${scheduling.tenantId ?? 'default'}`;
+  const stride = PRIORITY_STRIDE[scheduling.priority];
+
+  const [clock, last] = await Promise.all([readVirtualClock(), connection.get(key)]);
+  const start = Math.max(clock, Number(last) || 0);
+  const times = Array.from({ length: count }, (_, i) => start + 1 + i * stride);
+
+  await connection.set(key, String(times[count - 1] ?? start), 'EX', TENANT_VT_TTL_SECONDS);
+
+  if (clock - (await readPriorityBase()) > REBASE_THRESHOLD) await rebasePriorities();
+  const base = await readPriorityBase();
+
+  return times.map(virtualTime => ({ virtualTime, priority: toPriority(virtualTime, base) }));
+}
+
+// Só a tentativa que consegue o slot renova o TTL da chave; slots vazados expiram pelo score
+export async function acquireBatchSlot(batchId: string, jobId: string, limit: number): Promise<boolean> {
+  const key = `${BATCH_ACTIVE_PREFIX}${batchId}`;
+  const now = Date.now();
+
+  const results = await connection.multi()
+    .zremrangebyscore(key, '-inf', now - BATCH_SLOT_TTL_MS)
+    .zadd(key, now, jobId)
+    .zcard(key)
+    .exec();
+  const active = Number(results?.[2]?.[1] ?? 0);
 
+  if (active > limit) {
+    await connection.zrem(key, jobId);
+    return false;
+  }
+
+  await connection.pexpire(key, BATCH_SLOT_TTL_MS);
+  return true;
+}
+
+export async function releaseBatchSlot(batchId: string, jobId: string): Promise<void> {
+  await connection.zrem(`${BATCH_ACTIVE_PREFIX}${batchId}`, jobId);
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+export async function addAuditJob(payload: AuditJobPayload): Promise<Job<AuditJobPayload>> {
+  const job = await auditQueue.add('audit-batch', payload, { jobId: payload.batchId });
+  log.debug('Auditoria adicionada à fila', { batchId: payload.batchId });
   return job;
 }
 
-export async function addBulkRepairJobs(payloads: JobPayload[]): Promise<void> {
+export async function addBulkRepairJobs(
+  payloads: JobPayload[],
+  scheduling: FairScheduling = DEFAULT_SCHEDULING
+): Promise<void> {
+  const slots = await reserveFairPriorities(scheduling, payloads.length);
+
   const jobs = payloads.map((payload, index) => ({
     name: 'repair-table',
-    data: payload,
+    data: { ...payload, virtualTime: slots[index].virtualTime },
     opts: {
-      jobId: payload.taskId,
-      priority: index, // Processa em ordem
+      jobId: payload.taskId, // Usar taskId como jobId para rastreamento
+      priority: slots[index].priority, // Em ordem dentro do batch, intercalado com os outros tenants
     },
   }));
 
   await repairQueue.addBulk(jobs);
-  log.info(`${jobs.length} jobs adicionados à fila`);
+  log.info(`${jobs.length} jobs adicionados à fila`, {
+    tenantId: scheduling.tenantId,
+    priority: scheduling.priority,
+    firstPriority: slots[0]?.priority,
+  });
+}
+
+// Re-enfileira tasks já processadas (retry manual, rejeição na revisão) pelo fair share
+// do tenant. O jobId é o taskId, então o job antigo (completed/failed) precisa sair antes.
+export async function requeueRepairJobs(
+  payloads: JobPayload[],
+  scheduling: FairScheduling = DEFAULT_SCHEDULING
+): Promise<void> {
+  for (const payload of payloads) {
+    const previous = await repairQueue.getJob(payload.taskId);
+    if (previous) {
+      await previous.remove();
+    }
+  }
+  await addBulkRepairJobs(payloads, scheduling);
+}
+
+export async function requeueRepairJob(payload: JobPayload, scheduling: FairScheduling = DEFAULT_SCHEDULING): Promise<void> {
+  await requeueRepairJobs([payload], scheduling);
 }
 
 export async function getQueueStats() {
-  const [waiting, active, completed, failed, delayed] = await Promise.all([
+  const [waiting, prioritized, active, completed, failed, delayed] = await Promise.all([
     repairQueue.getWaitingCount(),
+    repairQueue.getPrioritizedCount(),
     repairQueue.getActiveCount(),
     repairQueue.getCompletedCount(),
     repairQueue.getFailedCount(),
     repairQueue.getDelayedCount(),
   ]);
 
-  return { waiting, active, completed, failed, delayed };
+  return { waiting, prioritized, active, completed, failed, delayed };
 }
 
 export async function pauseQueue(): Promise<void> {
@@ -101,14 +267,19 @@ export async function clearQueue(): Promise<void> {
 }
 
 export async function cancelBatchJobs(batchId: string): Promise<number> {
-  // Busca jobs do batch e remove
-  const jobs = await repairQueue.getJobs(['waiting', 'delayed', 'active']);
+  // Busca jobs do batch e remove (fair share: quase todos ficam em "prioritized")
+  const jobs = await repairQueue.getJobs(['waiting', 'prioritized', 'delayed', 'active']);
   let cancelled = 0;
 
   for (const job of jobs) {
-    if (job.data.batchId === batchId) {
+    if (job.data.batchId !== batchId) continue;
+
+    try {
       await job.remove();
       cancelled++;
+    } catch (error: any) {
+      // Ativo com lock de um worker: termina a tentativa atual
+      log.debug('Job não cancelado', { jobId: job.id, error: error.message });
     }
   }
 
@@ -116,9 +287,56 @@ export async function cancelBatchJobs(batchId: string): Promise<number> {
   return cancelled;
 }
 
+// Jobs de batch pausado ficam "delayed" na fila; a retomada os promove antes desse prazo
+export const PAUSED_JOB_DELAY_MS = 60 * 60 * 1000;
+
+// Retém os jobs ainda não iniciados de um batch (os ativos terminam normalmente)
+export async function holdBatchJobs(batchId: string): Promise<number> {
+  const jobs = await repairQueue.getJobs(['waiting', 'prioritized']);
+  let held = 0;
+
+  for (const job of jobs) {
+    if (job.data.batchId !== batchId) continue;
+
+    try {
+      // Não dá para mover um job em espera para delayed: recria com o mesmo jobId
+      await job.remove();
+      await repairQueue.add(job.name, job.data, {
+        jobId: job.id,
+        priority: job.opts.priority,
+        delay: PAUSED_JOB_DELAY_MS,
+      });
+      held++;
+    } catch (error: any) {
+      // Já pego por um worker: ele mesmo retém ao ver o batch PAUSED
+      log.debug('Job não retido', { jobId: job.id, error: error.message });
+    }
+  }
+
+  log.info(`${held} jobs retidos para batch ${batchId}`);
+  return held;
+}
+
+// Libera jobs retidos de um batch pausado
+export async function releaseBatchJobs(batchId: string): Promise<number> {
+  const jobs = await repairQueue.getJobs(['delayed']);
+  let released = 0;
+
+  for (const job of jobs) {
+    if (job.data.batchId === batchId) {
+      await job.promote();
+      released++;
+    }
+  }
+
+  log.info(`${released} jobs liberados para batch ${batchId}`);
+  return released;
+}
+
 // Graceful shutdown
 export async function closeQueue(): Promise<void> {
   await repairQueue.close();
+  await auditQueue.close();
   await repairQueueEvents.close();
   connection.disconnect();
   log.info('Fila fechada');
@@ -0,0 +1,161 @@
+/**
+ * AUDIT BASELINE
+ *
+ * Relatório do auditor sobre um export real, salvo como baseline e comparado depois
+ * (scripts/audit-baseline.ts): qualquer mudança de detecção no auditService aparece
+ * como issues adicionadas/removidas antes do deploy.
+ */
+
+import { auditShard } from './auditService.js';
+import { streamQuestionShards } from './questionStream.js';
+import { formatFromFileName, getInputAdapter } from './inputFormats/index.js';
+import type { Issue } from '../utils/types.js';
+
+const BASELINE_VERSION = 1;
+const SHARD_SIZE = 500;
+
+// Issue sem o que muda entre execuções (id) ou é só contexto (rawHtml/fullText)
+export type BaselineIssue = Pick<Issue, 'qid' | 'questionIndex' | 'field' | 'tableIndex' | 'severity' | 'type' | 'title' | 'location'>;
+
+export interface AuditBaseline {
+  version: number;
+  source: string;
+  createdAt: string;
+  stats: {
+    questions: number;
+    totalTables: number;
+    bad: number;
+    warn: number;
+  };
+  issues: BaselineIssue[];
+}
+
+export interface BaselineTypeDelta {
+  type: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface BaselineDiff {
+  changed: boolean;
+  stats: { baseline: AuditBaseline['stats']; current: AuditBaseline['stats'] };
+  byType: BaselineTypeDelta[]; // só os tipos cuja contagem mudou
+  added: BaselineIssue[];
+  removed: BaselineIssue[];
+  unchanged: number;
+}
+
+const toBaselineIssue = (issue: Issue): BaselineIssue => ({
+  qid: issue.qid,
+  questionIndex: issue.questionIndex,
+  field: issue.field,
+  tableIndex: issue.tableIndex,
+  severity: issue.severity,
+  type: issue.type,
+  title: issue.title,
+  location: issue.location,
+});
+
+const issueKey = (issue: BaselineIssue): string =>
+  JSON.stringify([
+    issue.questionIndex, issue.field, issue.tableIndex, issue.type, issue.severity, issue.title,
+    issue.location?.row ?? null, issue.location?.col ?? null,
+  ]);
+
+const countByType = (issues: BaselineIssue[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const issue of issues) counts.set(issue.type, (counts.get(issue.type) || 0) + 1);
+  return counts;
+};
+
+// ==========================================
+// API
+// ==========================================
+
+// Audita o export em streaming (mesma lógica do auditData, sem carregar o arquivo inteiro).
+// O formato vem da extensão; sem extensão conhecida, JSON
+export async function auditFile(filePath: string): Promise<AuditBaseline> {
+  const issues: BaselineIssue[] = [];
+  const stats = { questions: 0, totalTables: 0, bad: 0, warn: 0 };
+
+  const questions = getInputAdapter(formatFromFileName(filePath)).readQuestions(filePath);
+  for await (const shard of streamQuestionShards(questions, SHARD_SIZE)) {
+    const result = auditShard(shard);
+    stats.questions += shard.questions.length;
+    stats.totalTables += result.tables;
+
+    for (const issue of result.issues) {
+      if (issue.severity === 'BAD') stats.bad++;
+      else stats.warn++;
+      issues.push(toBaselineIssue(issue));
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    source: filePath,
+    createdAt: new Date().toISOString(),
+    stats,
+    issues,
+  };
+}
+
+export function parseBaseline(json: string): AuditBaseline {
+  const baseline = JSON.parse(json) as AuditBaseline;
+  if (baseline?.version !== BASELINE_VERSION || !Array.isArray(baseline.issues)) {
+    throw new Error(`Unsupported baseline (expected version ${BASELINE_VERSION})`);
+  }
+  return baseline;
+}
+
+// Compara como multiconjunto: a mesma issue repetida conta uma vez por ocorrência
+export function diffBaseline(baseline: AuditBaseline, current: AuditBaseline): BaselineDiff {
+  const remaining = new Map<string, BaselineIssue[]>();
+  for (const issue of baseline.issues) {
+    const key = issueKey(issue);
+    const list = remaining.get(key) || [];
+    list.push(issue);
+    remaining.set(key, list);
+  }
+
+  const added: BaselineIssue[] = [];
+  let unchanged = 0;
+
+  for (const issue of current.issues) {
+    const list = remaining.get(issueKey(issue));
+    if (list && list.length > 0) {
+      list.pop();
+      unchanged++;
+    } else {
+      added.push(issue);
+    }
+  }
+
+  const removed = [...remaining.values()]
+    .flat()
+    .sort((a, b) => a.questionIndex - b.questionIndex || a.tableIndex - b.tableIndex);
+
+  const before = countByType(baseline.issues);
+  const after = countByType(current.issues);
+  const byType = [...new Set([...before.keys(), ...after.keys()])]
+    .sort()
+    .map(type => ({
+      type,
+      baseline: before.get(type) || 0,
+      current: after.get(type) || 0,
+      delta: (after.get(type) || 0) - (before.get(type) || 0),
+    }))
+    .filter(t => t.delta !== 0);
+
+  const statsChanged = JSON.stringify(baseline.stats) !== JSON.stringify(current.stats);
+
+  return {
+    changed: statsChanged || added.length > 0 || removed.length > 0,
+    stats: { baseline: baseline.stats, current: current.stats },
+    byType,
+    added,
+    removed,
+    unchanged,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * AUDIT POOL
+ *
+ * Pool de worker_threads para a auditoria: as questões são divididas em shards contíguos
+ * (por índice) e cada thread roda o mesmo auditShard da versão serial. Os resultados são
+ * juntados na ordem dos shards, então as issues saem na mesma ordem da execução serial
+ * (só o `id` de cada issue, aleatório, muda entre execuções).
+ */
+
+import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import { env } from '../config/env.js';
+import { auditShard } from './auditService.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuditShard, ShardAudit } from '../utils/types.js';
+
+const log = createLogger('auditPool');
+
+// Em dev (tsx) o fonte é .ts e a thread precisa registrar o loader do tsx antes de importar
+const RUNNING_TS = import.meta.url.endsWith('.ts');
+const THREAD_ENTRY = new URL(`../workers/auditThread.${RUNNING_TS ? 'ts' : 'js'}`, import.meta.url);
+
+type ShardResponse = { result: ShardAudit } | { error: string };
+
+interface PendingShard {
+  shard: AuditShard;
+  resolve: (result: ShardAudit) => void;
+  reject: (error: Error) => void;
+}
+
+export const auditThreadCount = (): number =>
+  env.AUDIT_THREADS ?? Math.max(1, availableParallelism() - 1);
+
+const createThread = (): Worker => RUNNING_TS
+  ? new Worker(
+    `import('tsx/esm/api').then(api => { api.register(); return import(${JSON.stringify(THREAD_ENTRY.href)}); })`,
+    { eval: true }
+  )
+  : new Worker(THREAD_ENTRY);
+
+class AuditPool {
+  private threads: Worker[] = [];
+  private idle: Worker[] = [];
+  private running = new Map<Worker, PendingShard>();
+  private queue: PendingShard[] = [];
+  private closing = false;
+
+  constructor(private readonly size: number) {}
+
+  run(shard: AuditShard): Promise<ShardAudit> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ shard, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    for (const pending of this.queue) pending.reject(new Error('Audit pool closed'));
+    this.queue = [];
+    await Promise.all(this.threads.map(thread => thread.terminate()));
+    this.threads = [];
+    this.idle = [];
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const thread = this.idle.pop() ?? this.spawn();
+      if (!thread) return;
+
+      const pending = this.queue.shift()!;
+      this.running.set(thread, pending);
+      thread.ref();
+      thread.postMessage(pending.shard);
+    }
+  }
+
+  private spawn(): Worker | null {
+    if (this.closing || this.threads.length >= this.size) return null;
+
+    const thread = createThread();
+
+    thread.on('message', (response: ShardResponse) => {
+      const pending = this.running.get(thread);
+      this.running.delete(thread);
+      this.idle.push(thread);
+      thread.unref(); // thread ociosa não segura o processo (scripts, testes)
+
+      if ('error' in response) pending?.reject(new Error(response.error));
+      else pending?.resolve(response.result);
+
+      this.dispatch();
+    });
+
+    thread.on('error', (error) => {
+      log.error('Audit thread error', { error: error.message });
+      this.discard(thread, error);
+    });
+
+    thread.on('exit', (code) => {
+      if (!this.closing) this.discard(thread, new Error(`Audit thread exited with code ${code}`));
+    });
+
+    this.threads.push(thread);
+    return thread;
+  }
+
+  // Thread morta: falha o shard que ela rodava e abre espaço para outra
+  private discard(thread: Worker, error: Error): void {
+    this.threads = this.threads.filter(t => t !== thread);
+    this.idle = this.idle.filter(t => t !== thread);
+
+    const pending = this.running.get(thread);
+    this.running.delete(thread);
+    pending?.reject(error);
+
+    this.dispatch();
+  }
+}
+
+let pool: AuditPool | null = null;
+
+// ==========================================
+// API
+// ==========================================
+
+// AUDIT_THREADS=0 audita na thread atual (mesmo resultado, sem paralelismo)
+export async function auditShardParallel(shard: AuditShard): Promise<ShardAudit> {
+  const size = auditThreadCount();
+  if (size === 0) return auditShard(shard);
+
+  if (!pool) {
+    pool = new AuditPool(size);
+    log.info('Audit pool started', { threads: size });
+  }
+  return pool.run(shard);
+}
+
+export async function closeAuditPool(): Promise<void> {
+  if (!pool) return;
+  await pool.close();
+  pool = null;
+}
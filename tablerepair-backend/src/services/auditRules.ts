@@ -0,0 +1,135 @@
+/**
+ * AUDIT RULES
+ *
+ * Política de auditoria configurável por batch: liga/desliga cada tipo de issue, troca a
+ * severidade (BAD/WARN/IGNORE) e estende as listas de palavras-chave do analyzeTable.
+ * Sem configuração o auditor se comporta exatamente como o original (golden tests).
+ */
+
+import { z } from 'zod';
+import type { AuditRules, Issue } from '../utils/types.js';
+
+// Todos os tipos que a auditoria emite (analyzeTable + auditQuestion)
+export const AUDIT_ISSUE_TYPES = [
+  'CONTENT_SWALLOW', 'MARKDOWN_DETECTED', 'MARKDOWN_TABLE_IN_FIELD', 'INVALID_HTML', 'NO_DATA',
+  'NESTED_TABLE', 'NO_HEADER', 'TABLE_1x1', 'EMPTY_TABLE', 'SPLIT_HEADER', 'HEADER_EMPTY',
+  'HEADER_LATEX_BROKEN', 'HEADER_BROKEN_STYLE', 'MISSING_HEADER_TEXT', 'HEADER_DUP', 'GHOST_COLUMNS',
+  'GHOST_COLUMN', 'COL_MISMATCH', 'SPLIT_CELL', 'AI_LAZY', 'LATEX_BROKEN', 'BROKEN_ENTITY',
+  'BROKEN_STYLE_VALUE', 'TRUNCATED_CONTENT', 'WHITESPACE_ONLY', 'CELL_HOLE', 'INVALID_ROWSPAN',
+  'BROKEN_STYLE', 'SPLIT_TABLE',
+] as const;
+
+// Listas originais do auditor (PRESERVADO DO ORIGINAL); configurações só acrescentam
+const CONTENT_SWALLOW_PATTERNS = [
+  String.raw`Armadilha\s*#\d+`,
+  String.raw`Estratégia\s*#\d+`,
+  'Critérios para Classificação de Sigilo',
+  'mnemonica-box',
+];
+const AI_LAZY_KEYWORDS = ['incompleta', 'fórmula', 'formula', 'missing', 'erro', 'check', 'todo', 'inserir', 'preencher'];
+const FINANCIAL_HEADER_KEYWORDS = [
+  'débito', 'crédito', 'saldo', 'valor', 'r$', 'custo', 'receita', 'despesa', 'total', 'entradas', 'saídas',
+  'estoque', 'lucro', 'patrimônio',
+];
+
+const MAX_KEYWORDS = 200;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ==========================================
+// VALIDAÇÃO
+// ==========================================
+
+const keywordListSchema = z.array(z.string().trim().min(1).max(200)).max(MAX_KEYWORDS);
+
+export const auditRulesSchema = z.object({
+  rules: z.record(z.string(), z.object({
+    enabled: z.boolean().optional(),
+    severity: z.enum(['BAD', 'WARN', 'IGNORE']).optional(),
+  }).strict()).optional()
+    .superRefine((rules, ctx) => {
+      for (const type of Object.keys(rules ?? {})) {
+        if (!(AUDIT_ISSUE_TYPES as readonly string[]).includes(type)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown issue type: ${type}`, path: [type] });
+        }
+      }
+    }),
+  keywords: z.object({
+    contentSwallow: keywordListSchema.optional(),
+    aiLazy: keywordListSchema.optional(),
+    financialHeaders: keywordListSchema.optional(),
+  }).strict().optional(),
+}).strict();
+
+// ==========================================
+// COMPILAÇÃO
+// ==========================================
+
+export interface CompiledAuditRules {
+  contentSwallow: RegExp;
+  aiLazy: RegExp;
+  financialHeaders: string[];
+  isEnabled: (type: string) => boolean;
+  // Remove as issues desligadas/IGNORE e aplica as severidades configuradas
+  apply: (issues: Issue[]) => Issue[];
+}
+
+export function compileAuditRules(config?: AuditRules | null): CompiledAuditRules {
+  const overrides = config?.rules ?? {};
+  const keywords = config?.keywords ?? {};
+
+  const isEnabled = (type: string): boolean => {
+    const override = overrides[type];
+    return !override || (override.enabled !== false && override.severity !== 'IGNORE');
+  };
+
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  return {
+    contentSwallow: new RegExp(
+      [...CONTENT_SWALLOW_PATTERNS, ...(keywords.contentSwallow ?? []).map(escapeRegex)].join('|'),
+      'i'
+    ),
+    aiLazy: new RegExp(
+      `\\[.*(${[...AI_LAZY_KEYWORDS, ...(keywords.aiLazy ?? []).map(escapeRegex)].join('|')}).*\\]`,
+      'i'
+    ),
+    financialHeaders: [...FINANCIAL_HEADER_KEYWORDS, ...(keywords.financialHeaders ?? []).map(k => k.toLowerCase())],
+    isEnabled,
+    apply: (issues) => {
+      if (!hasOverrides) return issues;
+      return issues
+        .filter(issue => isEnabled(issue.type))
+        .map(issue => {
+          const severity = overrides[issue.type]?.severity;
+          return severity && severity !== 'IGNORE' && severity !== issue.severity ? { ...issue, severity } : issue;
+        });
+    },
+  };
+}
+
+export const DEFAULT_AUDIT_RULES = compileAuditRules();
+
+// Perfil salvo + overrides do upload: regras por tipo sobrescrevem, palavras-chave somam
+export function mergeAuditRules(base?: AuditRules | null, override?: AuditRules | null): AuditRules | null {
+  if (!base && !override) return null;
+
+  const rules: NonNullable<AuditRules['rules']> = { ...base?.rules };
+  for (const [type, rule] of Object.entries(override?.rules ?? {})) {
+    rules[type] = { ...rules[type], ...rule };
+  }
+
+  const mergeList = (a?: string[], b?: string[]) =>
+    a || b ? [...new Set([...(a ?? []), ...(b ?? [])])] : undefined;
+
+  const keywords: NonNullable<AuditRules['keywords']> = {};
+  for (const list of ['contentSwallow', 'aiLazy', 'financialHeaders'] as const) {
+    const merged = mergeList(base?.keywords?.[list], override?.keywords?.[list]);
+    if (merged) keywords[list] = merged;
+  }
+
+  return {
+    ...(Object.keys(rules).length > 0 ? { rules } : {}),
+    ...(Object.keys(keywords).length > 0 ? { keywords } : {}),
+  };
+}
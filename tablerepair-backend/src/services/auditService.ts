@@ -2,14 +2,18 @@
  * AUDIT SERVICE - Migrado para Node.js
  *
  * IMPORTANTE: Este arquivo preserva 100% da lógica original.
- * Única mudança: DOMParser → jsdom para funcionar em Node.js
+ * Única mudança: DOMParser → parser HTML interno (utils/dom.ts) para funcionar em Node.js
  *
  * NÃO ALTERAR a lógica de detecção sem aprovação explícita!
  */
 
-import { JSDOM } from 'jsdom';
 import { performance } from 'perf_hooks';
-import type { Issue, AuditReport, Question } from '../utils/types.js';
+import { HtmlElement, HtmlText, parseHtml } from '../utils/dom.js';
+import { compileAuditRules, DEFAULT_AUDIT_RULES } from './auditRules.js';
+import { compileFieldPaths, expandFieldPaths } from '../utils/fieldPaths.js';
+import type { PathSegment } from '../utils/fieldPaths.js';
+import type { CompiledAuditRules } from './auditRules.js';
+import type { Issue, AuditReport, AuditRules, AuditShard, Question, ShardAudit } from '../utils/types.js';
 
 // ============================================================================
 // CONSTANTS & REGEX (PRESERVADO DO ORIGINAL)
@@ -17,13 +21,17 @@ import type { Issue, AuditReport, Question } from '../utils/types.js';
 
 export const FIELDS_TO_AUDIT = ['enunciado', 'resolucao', 'resolucao_aprofundada', 'texto_associado'] as const;
 
+// Campos do batch (upload `fields`); vazio/ausente = FIELDS_TO_AUDIT
+export const compileAuditFields = (fields?: readonly string[] | null): PathSegment[][] =>
+  compileFieldPaths(fields?.length ? fields : FIELDS_TO_AUDIT);
+
+const DEFAULT_AUDIT_FIELDS = compileAuditFields();
+
 const REGEX_SPLIT_CELL = /^(\s*\$\s*|\s*[A-Za-z]_\{?\d+\}?\s*)$/;
 const REGEX_SPLIT_OPERATOR = /^[\s]*[><=+*/][\s]*$/;
-const REGEX_AI_LAZY = /\[.*(incompleta|fórmula|formula|missing|erro|check|todo|inserir|preencher).*\]/i;
 const REGEX_BROKEN_ENTITY = /&[a-zA-Z]+(?![a-zA-Z;])|&#\d*(?![0-9;])/;
 const REGEX_MD_TABLE = /(^\s*\|.+\|\s*$)\s*\n\s*\|[\s:-]+\|\s*$/m;
 const REGEX_HYPHEN_ONLY = /^[\s\u00A0]*[-–—]+[\s\u00A0]*$/;
-const REGEX_CONTENT_SWALLOW = /Armadilha\s*#\d+|Estratégia\s*#\d+|Critérios para Classificação de Sigilo|mnemonica-box/i;
 const REGEX_BROKEN_STYLE_VALUE = /style\s*=\s*["'][^"']*&[lg]t;/i;
 
 // ============================================================================
@@ -60,7 +68,7 @@ const createIssue = (
   fullText: context.fullText
 });
 
-const cellHasContent = (cell: Element): boolean => {
+export const cellHasContent = (cell: HtmlElement): boolean => {
   const text = (cell.textContent ?? '').trim();
   if (text !== '') return true;
   if (cell.querySelector('img, svg, canvas, video, audio, iframe, math')) return true;
@@ -75,7 +83,7 @@ const safeInt = (v: string | null, fallback = 1): number => {
   return n;
 };
 
-const getText = (el: Element | null): string => (el?.textContent ?? '').trim();
+const getText = (el: HtmlElement | null): string => (el?.textContent ?? '').trim();
 
 const checkLatexBalance = (text: string): { broken: boolean; reason: string } => {
   const trimmed = text.trim();
@@ -105,10 +113,9 @@ const checkLatexBalance = (text: string): { broken: boolean; reason: string } =>
   return { broken: false, reason: '' };
 };
 
-// ADAPTADO: Usar jsdom em vez de DOMParser
-const extractTopLevelTables = (html: string): Element[] => {
-  const dom = new JSDOM(html);
-  const doc = dom.window.document;
+// ADAPTADO: parseHtml em vez de DOMParser
+const extractTopLevelTables = (html: string): HtmlElement[] => {
+  const doc = parseHtml(html);
 
   const all = Array.from(doc.querySelectorAll('table'));
   if (all.length === 0) return [];
@@ -123,19 +130,51 @@ const extractTopLevelTables = (html: string): Element[] => {
   });
 };
 
+// Identifica a linha de cabeçalho e as linhas de corpo (extraído de analyzeTable)
+export const getHeaderAndBodyRows = (table: HtmlElement): { headerRow: HtmlElement | null; bodyRows: HtmlElement[] } => {
+  const thead = table.querySelector('thead');
+  const tbody = table.querySelector('tbody');
+
+  let headerRow: HtmlElement | null = null;
+  let bodyRows: HtmlElement[] = [];
+
+  if (thead) {
+    headerRow = thead.querySelector('tr');
+
+    if (tbody) {
+      bodyRows = Array.from(tbody.querySelectorAll('tr'));
+    } else {
+      const directRows = Array.from(table.querySelectorAll(':scope > tr'));
+      bodyRows = directRows.filter(r => !(thead.contains(r)));
+    }
+  } else {
+    const candidateRows = tbody ? Array.from(tbody.querySelectorAll('tr')) : Array.from(table.querySelectorAll(':scope > tr'));
+    if (candidateRows.length > 0) {
+      headerRow = candidateRows[0];
+      bodyRows = candidateRows.slice(1);
+    } else {
+      const anyRows = Array.from(table.querySelectorAll('tr'));
+      headerRow = anyRows[0] ?? null;
+      bodyRows = anyRows.slice(1);
+    }
+  }
+
+  return { headerRow, bodyRows };
+};
+
 // ============================================================================
 // GRID BUILDER (PRESERVADO DO ORIGINAL)
 // ============================================================================
 
-type GridCell = {
-  el: Element;
+export type GridCell = {
+  el: HtmlElement;
   row: number;
   col: number;
   colspan: number;
   rowspan: number;
 };
 
-type TableGrid = {
+export type TableGrid = {
   expectedCols: number;
   headerCells: GridCell[];
   bodyCells: GridCell[];
@@ -143,12 +182,12 @@ type TableGrid = {
   colHasContent: boolean[];
 };
 
-const computeExpectedColsFromHeader = (headerCells: Element[]): number => {
+const computeExpectedColsFromHeader = (headerCells: HtmlElement[]): number => {
   if (headerCells.length === 0) return 0;
   return headerCells.reduce((acc, c) => acc + safeInt(c.getAttribute('colspan'), 1), 0);
 };
 
-const buildGrid = (headerRowEl: Element | null, bodyRowEls: Element[]): TableGrid => {
+export const buildGrid = (headerRowEl: HtmlElement | null, bodyRowEls: HtmlElement[]): TableGrid => {
   const headerRowCellsEls = headerRowEl ? Array.from(headerRowEl.querySelectorAll('th, td')) : [];
   const expectedCols = computeExpectedColsFromHeader(headerRowCellsEls);
 
@@ -253,49 +292,91 @@ const buildGrid = (headerRowEl: Element | null, bodyRowEls: Element[]): TableGri
 // MAIN AUDIT (PRESERVADO DO ORIGINAL)
 // ============================================================================
 
-export const auditData = (data: Question[] | { questoes: Question[] }): AuditReport => {
+// Auditoria de uma questão (usada pela auditoria em streaming, questão a questão).
+// `field` das issues é o caminho concreto do campo (ex: "alternativas[2].texto")
+export const auditQuestion = (
+  q: Question,
+  index: number,
+  rules: CompiledAuditRules = DEFAULT_AUDIT_RULES,
+  fields: PathSegment[][] = DEFAULT_AUDIT_FIELDS
+): { issues: Issue[]; tables: number } => {
+  const issues: Issue[] = [];
+  let tables = 0;
+  const qid = getQuestionId(q);
+
+  expandFieldPaths(q, fields).forEach(({ path: field, value }) => {
+    if (field === 'resolucao_original') return;
+
+    if (!value) return;
+
+    if (REGEX_MD_TABLE.test(value) && !/<table/i.test(value)) {
+      issues.push(...rules.apply([createIssue(
+        { qid: qid, questionIndex: index, field, tableIndex: 0, fullText: value },
+        'BAD',
+        'MARKDOWN_TABLE_IN_FIELD',
+        'Field contains Markdown table instead of HTML',
+        {},
+        value.slice(0, 600)
+      )]));
+    }
+
+    const topTables = extractTopLevelTables(value);
+    if (topTables.length === 0) return;
+
+    topTables.forEach((tableEl, idx) => {
+      tables++;
+      const html = (tableEl as any).outerHTML;
+      const tableIssues = analyzeTable(html, {
+        qid: qid,
+        questionIndex: index,
+        field,
+        tableIndex: idx,
+        fullText: value
+      }, rules);
+      if (tableIssues.length) issues.push(...tableIssues);
+    });
+
+    if (rules.isEnabled('SPLIT_TABLE')) {
+      issues.push(...rules.apply(detectSplitTables(topTables, { qid, questionIndex: index, field, fullText: value })));
+    }
+  });
+
+  return { issues, tables };
+};
+
+// Auditoria de um shard (roda dentro das threads do auditPool)
+export const auditShard = ({ startIndex, questions, rules, fields }: AuditShard): ShardAudit => {
+  const issues: Issue[] = [];
+  let tables = 0;
+  const compiled = compileAuditRules(rules);
+  const fieldPaths = compileAuditFields(fields);
+
+  questions.forEach((q, offset) => {
+    const result = auditQuestion(q, startIndex + offset, compiled, fieldPaths);
+    tables += result.tables;
+    if (result.issues.length) issues.push(...result.issues);
+  });
+
+  return { issues, tables };
+};
+
+export const auditData = (
+  data: Question[] | { questoes: Question[] },
+  rules?: AuditRules | null,
+  fields?: readonly string[] | null
+): AuditReport => {
   const start = performance.now();
   const allIssues: Issue[] = [];
   let tableCount = 0;
+  const compiled = compileAuditRules(rules);
+  const fieldPaths = compileAuditFields(fields);
 
   const questions = Array.isArray(data) ? data : (data.questoes || []);
 
   questions.forEach((q, index) => {
-    const qid = getQuestionId(q);
-
-    FIELDS_TO_AUDIT.forEach(field => {
-      if (field === ('resolucao_original' as any)) return;
-
-      const value = q[field];
-      if (!value || typeof value !== 'string') return;
-
-      if (REGEX_MD_TABLE.test(value) && !/<table/i.test(value)) {
-        allIssues.push(createIssue(
-          { qid: qid, questionIndex: index, field, tableIndex: 0, fullText: value },
-          'BAD',
-          'MARKDOWN_TABLE_IN_FIELD',
-          'Field contains Markdown table instead of HTML',
-          {},
-          value.slice(0, 600)
-        ));
-      }
-
-      const topTables = extractTopLevelTables(value);
-      if (topTables.length === 0) return;
-
-      topTables.forEach((tableEl, idx) => {
-        tableCount++;
-        const html = (tableEl as any).outerHTML;
-        const issues = analyzeTable(html, {
-          qid: qid,
-          questionIndex: index,
-          field,
-          tableIndex: idx,
-          fullText: value
-        });
-        if (issues.length) allIssues.push(...issues);
-      });
-    });
+    const { issues, tables } = auditQuestion(q, index, compiled, fieldPaths);
+    tableCount += tables;
+    if (issues.length) allIssues.push(...issues);
   });
 
   return {
@@ -309,19 +390,94 @@ export const auditData = (data: Question[] | { questoes: Question[] }): AuditRep
   };
 };
 
+// ============================================================================
+// SPLIT TABLE (uma tabela partida em vários <table> seguidos no mesmo campo)
+// ============================================================================
+
+const columnCount = (table: HtmlElement): number => {
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+  return buildGrid(headerRow, bodyRows).expectedCols;
+};
+
+// Cabeçalho de verdade: <thead> ou <th> na primeira linha (getHeaderAndBodyRows sempre elege uma)
+const hasOwnHeader = (table: HtmlElement): boolean => {
+  if (table.querySelector(':scope > thead')) return true;
+  const { headerRow } = getHeaderAndBodyRows(table);
+  return !!headerRow?.querySelector(':scope > th');
+};
+
+// Entre as duas tabelas só espaço em branco (ou comentários)
+const onlyWhitespaceBetween = (a: HtmlElement, b: HtmlElement): boolean => {
+  for (let node = a.nextSibling; node; node = node.nextSibling) {
+    if (node === b) return true;
+    if (node instanceof HtmlElement) return false;
+    if (node instanceof HtmlText && node.nodeValue.trim() !== '') return false;
+  }
+  return false;
+};
+
+// Fragmentos seguidos (mesmo número de colunas, sem cabeçalho próprio) viram uma issue só,
+// com tableIndex = primeira tabela e tableSpan = quantas tabelas a sequência cobre
+export const detectSplitTables = (
+  tables: HtmlElement[],
+  context: Omit<TableContext, 'tableIndex'>
+): Issue[] => {
+  const issues: Issue[] = [];
+  const cols = tables.map(columnCount);
+  let start = 0;
+
+  const flush = (end: number) => {
+    if (end === start) return;
+    const span = end - start + 1;
+    issues.push({
+      ...createIssue(
+        { ...context, tableIndex: start },
+        'BAD',
+        'SPLIT_TABLE',
+        `Table split across ${span} <table> elements (tables ${start + 1}-${end + 1})`,
+        {},
+        tables.slice(start, end + 1).map(t => t.outerHTML).join('\n')
+      ),
+      tableSpan: span,
+    });
+  };
+
+  for (let i = 1; i < tables.length; i++) {
+    const continues = cols[i] > 0 && cols[i] === cols[i - 1] && !hasOwnHeader(tables[i])
+      && onlyWhitespaceBetween(tables[i - 1], tables[i]);
+    if (!continues) {
+      flush(i - 1);
+      start = i;
+    }
+  }
+  flush(tables.length - 1);
+
+  return issues;
+};
+
 // ============================================================================
 // TABLE ANALYSIS (PRESERVADO DO ORIGINAL)
 // ============================================================================
 
+type TableContext = { qid: string | number; questionIndex: number; field: string; tableIndex: number; fullText: string };
+
+// Regras do batch: tipos desligados/IGNORE somem e severidades configuradas são aplicadas
 export const analyzeTable = (
   tableHtml: string,
-  context: { qid: string | number; questionIndex: number; field: string; tableIndex: number; fullText: string }
+  context: TableContext,
+  rules: CompiledAuditRules = DEFAULT_AUDIT_RULES
+): Issue[] => rules.apply(detectTableIssues(tableHtml, context, rules));
+
+const detectTableIssues = (
+  tableHtml: string,
+  context: TableContext,
+  rules: CompiledAuditRules
 ): Issue[] => {
   const issues: Issue[] = [];
   const trimmed = tableHtml.trim();
 
-  // 0) Check for swallowed content
-  if (REGEX_CONTENT_SWALLOW.test(tableHtml)) {
+  // 0) Check for swallowed content (desligado = a tabela segue para as demais checagens)
+  if (rules.isEnabled('CONTENT_SWALLOW') && rules.contentSwallow.test(tableHtml)) {
     issues.push(createIssue(
       context,
       'BAD',
@@ -339,9 +495,8 @@ export const analyzeTable = (
     return issues;
   }
 
-  // 2) Parse HTML - ADAPTADO para jsdom
-  const dom = new JSDOM(tableHtml);
-  const doc = dom.window.document;
+  // 2) Parse HTML - ADAPTADO (parseHtml)
+  const doc = parseHtml(tableHtml);
   const table = doc.querySelector('table');
 
   if (!table) {
@@ -363,32 +518,7 @@ export const analyzeTable = (
   }
 
   // 4) Identify header row + body rows
-  const thead = table.querySelector('thead');
-  const tbody = table.querySelector('tbody');
-
-  let headerRow: Element | null = null;
-  let bodyRows: Element[] = [];
-
-  if (thead) {
-    headerRow = thead.querySelector('tr');
-
-    if (tbody) {
-      bodyRows = Array.from(tbody.querySelectorAll('tr'));
-    } else {
-      const directRows = Array.from(table.querySelectorAll(':scope > tr'));
-      bodyRows = directRows.filter(r => !(thead.contains(r)));
-    }
-  } else {
-    const candidateRows = tbody ? Array.from(tbody.querySelectorAll('tr')) : Array.from(table.querySelectorAll(':scope > tr'));
-    if (candidateRows.length > 0) {
-      headerRow = candidateRows[0];
-      bodyRows = candidateRows.slice(1);
-    } else {
-      const anyRows = Array.from(table.querySelectorAll('tr'));
-      headerRow = anyRows[0] ?? null;
-      bodyRows = anyRows.slice(1);
-    }
-  }
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
 
   const headerCellsEls = headerRow ? Array.from(headerRow.querySelectorAll('th, td')) : [];
   if (!headerRow || headerCellsEls.length === 0) {
@@ -402,7 +532,7 @@ export const analyzeTable = (
   // Header Analysis for Financial Context
   const headerTexts = headerCellsEls.map(c => getText(c).toLowerCase());
   const isFinancial = headerTexts.some(t =>
-    ['débito', 'crédito', 'saldo', 'valor', 'r$', 'custo', 'receita', 'despesa', 'total', 'entradas', 'saídas', 'estoque', 'lucro', 'patrimônio'].some(k => t.includes(k))
+    rules.financialHeaders.some(k => t.includes(k))
   );
 
   // 6) 1x1 layout abuse
@@ -548,7 +678,7 @@ export const analyzeTable = (
       ));
     }
 
-    if (REGEX_AI_LAZY.test(text)) {
+    if (rules.aiLazy.test(text)) {
       issues.push(createIssue(
         context,
         'BAD',
@@ -0,0 +1,71 @@
+/**
+ * AUTH SERVICE
+ *
+ * Chaves de API: só o hash (sha256) vai para o banco; a chave em texto
+ * é devolvida uma única vez, na criação. Chaves admin de bootstrap vêm de ADMIN_API_KEYS.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Batch } from '@prisma/client';
+import { env } from '../config/env.js';
+import { db } from './dbService.js';
+import { createLogger } from '../utils/logger.js';
+import type { ApiRole, AuthContext } from '../utils/types.js';
+
+const log = createLogger('authService');
+
+const API_KEY_PREFIX = 'trk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export const hashApiKey = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+const ADMIN_KEY_HASHES = new Set(
+  env.ADMIN_API_KEYS.split(',').map(k => k.trim()).filter(Boolean).map(hashApiKey)
+);
+
+// ==========================================
+// AUTENTICAÇÃO
+// ==========================================
+
+export async function authenticateApiKey(key: string): Promise<AuthContext | null> {
+  const keyHash = hashApiKey(key);
+
+  if (ADMIN_KEY_HASHES.has(keyHash)) {
+    return { clientId: null, tenantId: null, role: 'ADMIN' };
+  }
+
+  const client = await db.findApiClientByHash(keyHash);
+  if (!client || client.revokedAt) return null;
+
+  // Best-effort: não atrasa a requisição
+  db.touchApiClient(client.id).catch((error: any) => {
+    log.warn('Falha ao atualizar lastUsedAt', { clientId: client.id, error: error.message });
+  });
+
+  return { clientId: client.id, tenantId: client.tenantId, role: client.role as ApiRole };
+}
+
+// Admin vê tudo; cliente só os batches do próprio tenant
+export const canAccessBatch = (auth: AuthContext, batch: Pick<Batch, 'tenantId'>): boolean =>
+  auth.role === 'ADMIN' || (auth.tenantId !== null && batch.tenantId === auth.tenantId);
+
+// ==========================================
+// EMISSÃO
+// ==========================================
+
+export async function issueApiKey(input: { name: string; role: ApiRole; tenantId: string | null }) {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const client = await db.createApiClient({
+    name: input.name,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    role: input.role,
+    tenantId: input.tenantId,
+  });
+
+  log.info('API key emitida', { clientId: client.id, role: client.role, tenantId: client.tenantId });
+
+  return { client, key };
+}
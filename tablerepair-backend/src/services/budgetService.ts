@@ -0,0 +1,117 @@
+/**
+ * BUDGET SERVICE
+ *
+ * Orçamentos de custo: por batch (Batch.maxCostBRL) e global por dia (DAILY_BUDGET_BRL).
+ * O worker checa o gasto projetado antes de cada reparo e o gasto real depois;
+ * ao estourar, o batch vai para PAUSED e os jobs ficam retidos na fila (holdBatchJobs)
+ * até o operador aumentar o orçamento (PATCH /:batchId/budget).
+ */
+
+import type { Batch } from '@prisma/client';
+import { env } from '../config/env.js';
+import { getPricing } from '../config/pricing.js';
+import { holdBatchJobs } from '../config/queue.js';
+import { db } from './dbService.js';
+import { estimateRepairUsage } from './repairService.js';
+import { calculateCostBRL, resolveProviderChain } from './providers/index.js';
+import { createLogger } from '../utils/logger.js';
+import type { RepairContext } from '../utils/types.js';
+
+const log = createLogger('budgetService');
+
+export interface BudgetExceeded {
+  reason: 'BUDGET_BATCH' | 'BUDGET_DAILY';
+  limitBRL: number;
+  spentBRL: number;
+  projectedBRL: number;
+}
+
+export interface DailyBudget {
+  day: string;
+  limitBRL: number | null; // null = sem limite
+  spentBRL: number;
+  tokensUsed: number;
+}
+
+// ==========================================
+// ESTIMATIVA
+// ==========================================
+
+// Custo da primeira tentativa no primeiro provider configurado da cadeia
+export const estimateTaskCostBRL = (
+  rawHtml: string,
+  expectedCols: number,
+  context: RepairContext,
+  strategy: string
+): number => {
+  const [provider] = resolveProviderChain(strategy);
+  if (!provider) return 0;
+
+  const usage = estimateRepairUsage(rawHtml, expectedCols, context);
+  return calculateCostBRL(usage, getPricing(provider.name, provider.model));
+};
+
+// ==========================================
+// CHECAGEM
+// ==========================================
+
+export async function getDailyBudget(): Promise<DailyBudget> {
+  const spend = await db.getDailySpend();
+  const limit = spend.limitBRL ?? env.DAILY_BUDGET_BRL;
+
+  return {
+    day: spend.day,
+    limitBRL: limit > 0 ? limit : null,
+    spentBRL: spend.costBRL,
+    tokensUsed: spend.tokensUsed,
+  };
+}
+
+// `nextCostBRL` = custo projetado do próximo reparo (0 para checar só o gasto real)
+export async function checkBudget(batch: Batch, nextCostBRL: number = 0): Promise<BudgetExceeded | null> {
+  if (batch.maxCostBRL !== null && batch.totalCostBRL + nextCostBRL > batch.maxCostBRL) {
+    return {
+      reason: 'BUDGET_BATCH',
+      limitBRL: batch.maxCostBRL,
+      spentBRL: batch.totalCostBRL,
+      projectedBRL: batch.totalCostBRL + nextCostBRL,
+    };
+  }
+
+  const daily = await getDailyBudget();
+  if (daily.limitBRL !== null && daily.spentBRL + nextCostBRL > daily.limitBRL) {
+    return {
+      reason: 'BUDGET_DAILY',
+      limitBRL: daily.limitBRL,
+      spentBRL: daily.spentBRL,
+      projectedBRL: daily.spentBRL + nextCostBRL,
+    };
+  }
+
+  return null;
+}
+
+// ==========================================
+// PAUSA
+// ==========================================
+
+export async function pauseForBudget(batchId: string, exceeded: BudgetExceeded, taskId?: string): Promise<void> {
+  const paused = await db.pauseBatch(batchId, exceeded.reason);
+  if (!paused) return;
+
+  const held = await holdBatchJobs(batchId);
+  const scope = exceeded.reason === 'BUDGET_BATCH' ? 'Batch' : 'Daily';
+
+  await db.createLog(batchId, 'WARN', `${scope} budget exceeded, batch paused`, {
+    taskId,
+    metadata: {
+      reason: exceeded.reason,
+      limitBRL: exceeded.limitBRL,
+      spentBRL: exceeded.spentBRL,
+      projectedBRL: exceeded.projectedBRL,
+      jobsHeld: held,
+    },
+  });
+
+  log.warn('Batch paused by budget', { batchId, ...exceeded });
+}
@@ -1,15 +1,24 @@
-import { PrismaClient, Batch, Task, ProcessLog } from '@prisma/client';
+import { PrismaClient, Batch, Task, ProcessLog, DailySpend, Tenant, ApiClient, AuditProfile, RepairCache } from '@prisma/client';
 
 // Type aliases para status (agora são strings no banco)
-type BatchStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
-type TaskStatus = 'PENDING' | 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'RETRY' | 'SKIPPED' | 'CANCELLED';
+type BatchStatus = 'PENDING' | 'PROCESSING' | 'PAUSED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+type TaskStatus = 'PENDING' | 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'RETRY' | 'SKIPPED' | 'CANCELLED'
+  | 'AWAITING_REVIEW' | 'APPROVED' | 'REJECTED';
 type BatchPhase = 'UPLOAD' | 'AUDIT' | 'REPAIR' | 'VALIDATION' | 'EXPORT' | 'DONE';
 type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+type PauseReason = 'MANUAL' | 'BUDGET_BATCH' | 'BUDGET_DAILY';
 import { createLogger } from '../utils/logger.js';
-import type { BatchCreateInput, TaskCreateInput, BatchProgress } from '../utils/types.js';
+import { publishBatchEvent } from './eventService.js';
+import type { AuditRules, BatchCreateInput, TaskCreateInput, BatchProgress, BatchListFilter } from '../utils/types.js';
 
 const log = createLogger('dbService');
 
+// Escopo único do perfil de auditoria: o tenant, ou '' para os globais
+const profileScope = (tenantId: string | null): string => tenantId ?? '';
+
+// Chave do orçamento diário (UTC)
+const utcDay = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
 // Singleton do Prisma Client
 class DatabaseService {
   private static instance: DatabaseService;
@@ -43,6 +52,99 @@ class DatabaseService {
     log.info('Desconectado do PostgreSQL');
   }
 
+  // ==========================================
+  // TENANT / API CLIENT OPERATIONS
+  // ==========================================
+
+  async createTenant(name: string): Promise<Tenant> {
+    return this.prisma.tenant.create({ data: { name } });
+  }
+
+  async getTenant(tenantId: string): Promise<Tenant | null> {
+    return this.prisma.tenant.findUnique({ where: { id: tenantId } });
+  }
+
+  async listTenants() {
+    return this.prisma.tenant.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { batches: true, clients: true } } },
+    });
+  }
+
+  async createApiClient(input: {
+    name: string;
+    keyHash: string;
+    keyPrefix: string;
+    role: string;
+    tenantId: string | null;
+  }): Promise<ApiClient> {
+    return this.prisma.apiClient.create({ data: input });
+  }
+
+  async findApiClientByHash(keyHash: string): Promise<ApiClient | null> {
+    return this.prisma.apiClient.findUnique({ where: { keyHash } });
+  }
+
+  async listApiClients(tenantId?: string): Promise<ApiClient[]> {
+    return this.prisma.apiClient.findMany({
+      where: tenantId ? { tenantId } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async touchApiClient(clientId: string): Promise<void> {
+    await this.prisma.apiClient.update({
+      where: { id: clientId },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  async revokeApiClient(clientId: string): Promise<ApiClient | null> {
+    const client = await this.prisma.apiClient.findUnique({ where: { id: clientId } });
+    if (!client) return null;
+    if (client.revokedAt) return client;
+
+    return this.prisma.apiClient.update({
+      where: { id: clientId },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // ==========================================
+  // AUDIT PROFILES (tenantId null = global)
+  // ==========================================
+
+  // Perfis visíveis para o tenant: os dele e os globais
+  async listAuditProfiles(tenantId: string | null): Promise<AuditProfile[]> {
+    return this.prisma.auditProfile.findMany({
+      where: tenantId ? { OR: [{ tenantId }, { tenantId: null }] } : { tenantId: null },
+      orderBy: [{ name: 'asc' }, { tenantId: 'asc' }],
+    });
+  }
+
+  // Perfil do tenant tem precedência sobre o global de mesmo nome
+  async findAuditProfile(tenantId: string | null, name: string): Promise<AuditProfile | null> {
+    if (tenantId) {
+      const own = await this.prisma.auditProfile.findUnique({ where: { scope_name: { scope: profileScope(tenantId), name } } });
+      if (own) return own;
+    }
+    return this.prisma.auditProfile.findUnique({ where: { scope_name: { scope: profileScope(null), name } } });
+  }
+
+  async saveAuditProfile(tenantId: string | null, name: string, rules: AuditRules): Promise<AuditProfile> {
+    const scope = profileScope(tenantId);
+    return this.prisma.auditProfile.upsert({
+      where: { scope_name: { scope, name } },
+      update: { rules: rules as any },
+      create: { tenantId, scope, name, rules: rules as any },
+    });
+  }
+
+  async deleteAuditProfile(tenantId: string | null, name: string): Promise<boolean> {
+    const { count } = await this.prisma.auditProfile.deleteMany({ where: { scope: profileScope(tenantId), name } });
+    return count > 0;
+  }
+
   // ==========================================
   // BATCH OPERATIONS
   // ==========================================
@@ -50,11 +152,21 @@ class DatabaseService {
   async createBatch(input: BatchCreateInput): Promise<Batch> {
     const batch = await this.prisma.batch.create({
       data: {
+        tenantId: input.tenantId ?? null,
         fileName: input.fileName,
         fileSize: input.fileSize,
         inputFilePath: input.inputFilePath,
-        strategy: input.strategy || 'hybrid',
+        inputFormat: input.inputFormat || 'json',
+        strategy: input.strategy || 'google,openrouter',
         dryRun: input.dryRun || false,
+        requireReview: input.requireReview || false,
+        maxCostBRL: input.maxCostBRL ?? null,
+        priority: input.priority || 'normal',
+        maxConcurrency: input.maxConcurrency ?? null,
+        bypassCache: input.bypassCache || false,
+        auditProfile: input.auditProfile ?? null,
+        auditRules: (input.auditRules ?? undefined) as any,
+        auditFields: input.auditFields ?? [],
         status: 'PENDING',
         currentPhase: 'UPLOAD',
       },
@@ -74,11 +186,57 @@ class DatabaseService {
     if (status === 'PROCESSING' && !data.startedAt) data.startedAt = new Date();
     if (status === 'COMPLETED') data.completedAt = new Date();
     if (status === 'CANCELLED') data.cancelledAt = new Date();
+    if (status !== 'PAUSED') data.pauseReason = null;
 
-    return this.prisma.batch.update({
+    const batch = await this.prisma.batch.update({
       where: { id: batchId },
       data,
     });
+
+    await publishBatchEvent({
+      type: 'status',
+      batchId,
+      status: batch.status,
+      phase: batch.currentPhase,
+    });
+
+    return batch;
+  }
+
+  // Pausa condicional: só a primeira chamada pausa (ex: vários workers estourando o orçamento juntos)
+  async pauseBatch(batchId: string, reason: PauseReason): Promise<boolean> {
+    const { count } = await this.prisma.batch.updateMany({
+      where: { id: batchId, status: { in: ['PENDING', 'PROCESSING'] } },
+      data: { status: 'PAUSED', pauseReason: reason, pausedAt: new Date() },
+    });
+
+    if (count === 0) return false;
+
+    const batch = await this.prisma.batch.findUnique({ where: { id: batchId } });
+    if (batch) {
+      await publishBatchEvent({
+        type: 'status',
+        batchId,
+        status: batch.status,
+        phase: batch.currentPhase,
+      });
+    }
+
+    return true;
+  }
+
+  async setBatchAuditSummary(batchId: string, summary: Record<string, unknown>): Promise<Batch> {
+    return this.prisma.batch.update({
+      where: { id: batchId },
+      data: { auditSummary: summary as any },
+    });
+  }
+
+  async setBatchBudget(batchId: string, maxCostBRL: number | null): Promise<Batch> {
+    return this.prisma.batch.update({
+      where: { id: batchId },
+      data: { maxCostBRL },
+    });
   }
 
   async updateBatchCounters(batchId: string, counters: Partial<{
@@ -103,6 +261,8 @@ class DatabaseService {
     skippedCount?: number;
     totalTokensUsed?: number;
     totalCostBRL?: number;
+    cacheHits?: number;
+    cacheMisses?: number;
   }): Promise<Batch> {
     return this.prisma.batch.update({
       where: { id: batchId },
@@ -112,6 +272,8 @@ class DatabaseService {
         skippedCount: increments.skippedCount ? { increment: increments.skippedCount } : undefined,
         totalTokensUsed: increments.totalTokensUsed ? { increment: increments.totalTokensUsed } : undefined,
         totalCostBRL: increments.totalCostBRL ? { increment: increments.totalCostBRL } : undefined,
+        cacheHits: increments.cacheHits ? { increment: increments.cacheHits } : undefined,
+        cacheMisses: increments.cacheMisses ? { increment: increments.cacheMisses } : undefined,
       },
     });
   }
@@ -141,9 +303,56 @@ class DatabaseService {
       return acc;
     }, {} as Record<string, number>);
 
-    const totalTasks = batch._count.tasks;
-    const completedTasks = (statusCounts['COMPLETED'] || 0) + (statusCounts['SKIPPED'] || 0);
+    const rulesFixed = await this.prisma.task.count({
+      where: { batchId, provider: 'rules', status: 'COMPLETED' },
+    });
+
+    return this.toBatchProgress(batch, batch._count.tasks, statusCounts, rulesFixed);
+  }
+
+  // Progresso de vários batches com duas queries agrupadas (listagem)
+  async getBatchProgressMany(batches: Batch[]): Promise<Map<string, BatchProgress>> {
+    const ids = batches.map(b => b.id);
+
+    const [taskStats, rulesStats] = await Promise.all([
+      this.prisma.task.groupBy({
+        by: ['batchId', 'status'],
+        where: { batchId: { in: ids } },
+        _count: { status: true },
+      }),
+      this.prisma.task.groupBy({
+        by: ['batchId'],
+        where: { batchId: { in: ids }, provider: 'rules', status: 'COMPLETED' },
+        _count: { batchId: true },
+      }),
+    ]);
+
+    const countsByBatch = new Map<string, Record<string, number>>();
+    for (const stat of taskStats) {
+      const counts = countsByBatch.get(stat.batchId) || {};
+      counts[stat.status] = stat._count.status;
+      countsByBatch.set(stat.batchId, counts);
+    }
+
+    const rulesByBatch = new Map(rulesStats.map(r => [r.batchId, r._count.batchId]));
+
+    return new Map(batches.map(batch => {
+      const counts = countsByBatch.get(batch.id) || {};
+      const totalTasks = Object.values(counts).reduce((acc, n) => acc + n, 0);
+      return [batch.id, this.toBatchProgress(batch, totalTasks, counts, rulesByBatch.get(batch.id) || 0)];
+    }));
+  }
+
+  private toBatchProgress(
+    batch: Batch,
+    totalTasks: number,
+    statusCounts: Record<string, number>,
+    rulesFixed: number
+  ): BatchProgress {
+    const completedTasks = (statusCounts['COMPLETED'] || 0) + (statusCounts['SKIPPED'] || 0) + (statusCounts['APPROVED'] || 0);
     const failedTasks = statusCounts['FAILED'] || 0;
+    const awaitingReview = statusCounts['AWAITING_REVIEW'] || 0;
+    const cacheLookups = batch.cacheHits + batch.cacheMisses;
 
     return {
       batchId: batch.id,
@@ -152,7 +361,16 @@ class DatabaseService {
       totalTasks,
       completedTasks,
       failedTasks,
+      awaitingReview,
+      pauseReason: batch.pauseReason,
       percentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+      rulesFixed,
+      cache: {
+        enabled: !batch.bypassCache,
+        hits: batch.cacheHits,
+        misses: batch.cacheMisses,
+        hitRate: cacheLookups > 0 ? Math.round((batch.cacheHits / cacheLookups) * 100) : 0,
+      },
       costs: {
         tokensUsed: batch.totalTokensUsed,
         costBRL: batch.totalCostBRL,
@@ -160,6 +378,29 @@ class DatabaseService {
     };
   }
 
+  async listBatches(filter: BatchListFilter): Promise<Batch[]> {
+    const createdAt = filter.from || filter.to
+      ? { gte: filter.from, lte: filter.to }
+      : undefined;
+
+    return this.prisma.batch.findMany({
+      where: {
+        ...(filter.tenantId !== undefined ? { tenantId: filter.tenantId } : {}),
+        status: filter.statuses ? { in: filter.statuses } : undefined,
+        currentPhase: filter.phase,
+        createdAt,
+        fileName: filter.fileName ? { contains: filter.fileName, mode: 'insensitive' } : undefined,
+        strategy: filter.strategy,
+        dryRun: filter.dryRun,
+        totalCostBRL: filter.minCostBRL !== undefined ? { gte: filter.minCostBRL } : undefined,
+      },
+      // id como desempate: cursor estável mesmo com valores repetidos
+      orderBy: [{ [filter.sortBy]: filter.order }, { id: filter.order }],
+      take: filter.limit,
+      ...(filter.cursor ? { cursor: { id: filter.cursor }, skip: 1 } : {}),
+    });
+  }
+
   async setBatchOutputFile(batchId: string, outputFilePath: string): Promise<Batch> {
     return this.prisma.batch.update({
       where: { id: batchId },
@@ -179,6 +420,9 @@ class DatabaseService {
         qid: input.qid,
         field: input.field,
         tableIndex: input.tableIndex,
+        tableSpan: input.tableSpan ?? 1,
+        fingerprint: input.fingerprint,
+        anchor: input.anchor,
         taskType: input.taskType,
         issueType: input.issueType,
         severity: input.severity,
@@ -189,23 +433,29 @@ class DatabaseService {
     });
   }
 
-  async createManyTasks(inputs: TaskCreateInput[]): Promise<number> {
-    const result = await this.prisma.task.createMany({
+  // Retorna as tasks criadas (com id) para montar os jobs da fila
+  async createManyTasks(inputs: TaskCreateInput[]): Promise<Task[]> {
+    return this.prisma.task.createManyAndReturn({
       data: inputs.map(input => ({
         batchId: input.batchId,
         questionIndex: input.questionIndex,
         qid: input.qid,
         field: input.field,
         tableIndex: input.tableIndex,
+        tableSpan: input.tableSpan ?? 1,
+        fingerprint: input.fingerprint,
+        anchor: input.anchor,
         taskType: input.taskType,
         issueType: input.issueType,
         severity: input.severity,
-        rawHtml: input.rawHtml,
+        rawHtml: input.rawHtml ?? '',
         context: input.context as any,
-        status: 'PENDING',
+        status: input.status || 'PENDING',
+        repairedHtml: input.repairedHtml,
+        provider: input.provider,
+        completedAt: input.status && input.status !== 'PENDING' ? new Date() : undefined,
       })),
     });
-    return result.count;
   }
 
   async getTask(taskId: string): Promise<Task | null> {
@@ -230,17 +480,20 @@ class DatabaseService {
   async updateTaskStatus(taskId: string, status: TaskStatus, extras?: Partial<{
     repairedHtml: string;
     provider: string;
+    strategy: string;
     tokensUsed: number;
     costBRL: number;
     lastError: string;
     bullJobId: string;
     attempts: number;
     nextRetryAt: Date;
+    reviewNote: string;
   }>): Promise<Task> {
     const data: any = { status, ...extras };
 
     if (status === 'PROCESSING') data.startedAt = new Date();
-    if (status === 'COMPLETED' || status === 'FAILED') data.completedAt = new Date();
+    if (status === 'COMPLETED' || status === 'FAILED' || status === 'AWAITING_REVIEW') data.completedAt = new Date();
+    if (status === 'APPROVED' || status === 'REJECTED') data.reviewedAt = new Date();
 
     return this.prisma.task.update({
       where: { id: taskId },
@@ -248,6 +501,30 @@ class DatabaseService {
     });
   }
 
+  // Volta tasks FAILED para a fila (retry manual)
+  async resetTasksForRetry(taskIds: string[]): Promise<number> {
+    const result = await this.prisma.task.updateMany({
+      where: { id: { in: taskIds }, status: 'FAILED' },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        lastError: null,
+        nextRetryAt: null,
+        completedAt: null,
+      },
+    });
+    return result.count;
+  }
+
+  // Tasks ainda não processadas do batch (jobs removidos da fila) → CANCELLED
+  async cancelOpenTasks(batchId: string): Promise<number> {
+    const result = await this.prisma.task.updateMany({
+      where: { batchId, status: { in: ['PENDING', 'QUEUED', 'RETRY'] } },
+      data: { status: 'CANCELLED' },
+    });
+    return result.count;
+  }
+
   async incrementTaskAttempt(taskId: string): Promise<Task> {
     return this.prisma.task.update({
       where: { id: taskId },
@@ -265,11 +542,33 @@ class DatabaseService {
     });
   }
 
-  async getCompletedTasksGroupedByQuestion(batchId: string): Promise<Map<number, Task[]>> {
+  // Duração média (ms) dos reparos de IA mais recentes; null sem histórico
+  async getAverageTaskDurationMs(sample: number = 500): Promise<number | null> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        status: { in: ['COMPLETED', 'AWAITING_REVIEW', 'APPROVED'] },
+        provider: { notIn: ['rules', 'human'] },
+        startedAt: { not: null },
+        completedAt: { not: null },
+      },
+      select: { startedAt: true, completedAt: true },
+      orderBy: { completedAt: 'desc' },
+      take: sample,
+    });
+
+    const durations = tasks
+      .map(t => t.completedAt!.getTime() - t.startedAt!.getTime())
+      .filter(ms => ms > 0);
+
+    if (durations.length === 0) return null;
+    return durations.reduce((acc, ms) => acc + ms, 0) / durations.length;
+  }
+
+  async getCompletedTasksGroupedByQuestion(batchId: string, statuses: TaskStatus[] = ['COMPLETED']): Promise<Map<number, Task[]>> {
     const tasks = await this.prisma.task.findMany({
       where: {
         batchId,
-        status: 'COMPLETED',
+        status: { in: statuses },
       },
       orderBy: [{ questionIndex: 'asc' }, { tableIndex: 'asc' }],
     });
@@ -283,6 +582,71 @@ class DatabaseService {
     return grouped;
   }
 
+  // ==========================================
+  // REPAIR CACHE
+  // ==========================================
+
+  async getRepairCacheEntries(keys: string[]): Promise<RepairCache[]> {
+    if (keys.length === 0) return [];
+    return this.prisma.repairCache.findMany({ where: { key: { in: keys } } });
+  }
+
+  async touchRepairCacheEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.prisma.repairCache.updateMany({
+      where: { key: { in: keys } },
+      data: { hits: { increment: 1 }, lastHitAt: new Date() },
+    });
+  }
+
+  async deleteRepairCacheEntry(key: string): Promise<boolean> {
+    const result = await this.prisma.repairCache.deleteMany({ where: { key } });
+    return result.count > 0;
+  }
+
+  // Reparo aceito de novo para a mesma chave: o mais recente vale
+  async saveRepairCacheEntry(entry: {
+    key: string;
+    tenantId: string | null;
+    promptVersion: string;
+    modelChain: string;
+    repairedHtml: string;
+    provider: string;
+  }): Promise<RepairCache> {
+    return this.prisma.repairCache.upsert({
+      where: { key: entry.key },
+      create: entry,
+      update: { repairedHtml: entry.repairedHtml, provider: entry.provider },
+    });
+  }
+
+  // ==========================================
+  // DAILY SPEND (orçamento global)
+  // ==========================================
+
+  async getDailySpend(day: string = utcDay()): Promise<DailySpend> {
+    const spend = await this.prisma.dailySpend.findUnique({ where: { day } });
+    return spend ?? { day, updatedAt: new Date(), tokensUsed: 0, costBRL: 0, limitBRL: null };
+  }
+
+  async addDailySpend(costBRL: number, tokensUsed: number = 0): Promise<DailySpend> {
+    const day = utcDay();
+    return this.prisma.dailySpend.upsert({
+      where: { day },
+      create: { day, costBRL, tokensUsed },
+      update: { costBRL: { increment: costBRL }, tokensUsed: { increment: tokensUsed } },
+    });
+  }
+
+  async setDailyLimit(limitBRL: number | null): Promise<DailySpend> {
+    const day = utcDay();
+    return this.prisma.dailySpend.upsert({
+      where: { day },
+      create: { day, limitBRL },
+      update: { limitBRL },
+    });
+  }
+
   // ==========================================
   // LOG OPERATIONS
   // ==========================================
@@ -299,7 +663,7 @@ class DatabaseService {
       stackTrace: string;
     }>
   ): Promise<ProcessLog> {
-    return this.prisma.processLog.create({
+    const entry = await this.prisma.processLog.create({
       data: {
         batchId,
         level,
@@ -311,6 +675,23 @@ class DatabaseService {
         stackTrace: extras?.stackTrace,
       },
     });
+
+    await publishBatchEvent({
+      type: 'log',
+      batchId,
+      log: {
+        id: entry.id,
+        level: entry.level,
+        message: entry.message,
+        taskId: entry.taskId,
+        questionIndex: entry.questionIndex,
+        field: entry.field,
+        createdAt: entry.createdAt,
+        metadata: entry.metadata,
+      },
+    });
+
+    return entry;
   }
 
   async getLogs(batchId: string, options?: {
@@ -0,0 +1,307 @@
+/**
+ * DIFF SERVICE
+ *
+ * Compara a tabela original com a reparada no nível de células.
+ * Os grids são montados com a mesma lógica do auditor (getHeaderAndBodyRows + buildGrid),
+ * então linhas/colunas aqui batem com as posições reportadas nas issues.
+ */
+
+import { parseHtml } from '../utils/dom.js';
+import { buildGrid, getHeaderAndBodyRows } from './auditService.js';
+import { convertMarkdownTable } from './markdownTableService.js';
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+
+export interface NormalizedCell {
+  text: string;
+  row: number;
+  col: number;
+  colspan: number;
+  rowspan: number;
+  header: boolean;
+}
+
+export interface NormalizedGrid {
+  cols: number;
+  rows: NormalizedCell[][];
+}
+
+export interface CellChange {
+  kind: 'text' | 'colspan' | 'rowspan';
+  original: { row: number; col: number };
+  repaired: { row: number; col: number };
+  before: string | number;
+  after: string | number;
+}
+
+export interface TableDiff {
+  rows: { added: number[]; removed: number[] };
+  columns: { added: number[]; removed: number[] };
+  cells: CellChange[];
+  summary: {
+    rowsAdded: number;
+    rowsRemoved: number;
+    columnsAdded: number;
+    columnsRemoved: number;
+    cellsChanged: number;
+    identical: boolean;
+  };
+}
+
+type Slot = {
+  cell: NormalizedCell;
+  anchor: boolean;
+};
+
+// Similaridade mínima (Jaccard de tokens) para considerar duas linhas/colunas "a mesma"
+const MIN_SIMILARITY = 0.5;
+
+// ============================================================================
+// GRID
+// ============================================================================
+
+const normalizeText = (text: string | null | undefined): string =>
+  (text ?? '').replace(/[\s\u00A0\u200B]+/g, ' ').trim();
+
+export const tableToGrid = (html: string): NormalizedGrid => {
+  // Tasks MARKDOWN_TABLE_IN_FIELD guardam o Markdown original
+  const markdown = html.trim().startsWith('|') ? convertMarkdownTable(html).html : null;
+  const table = parseHtml(markdown ?? html).querySelector('table');
+  if (!table) return { cols: 0, rows: [] };
+
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+  const grid = buildGrid(headerRow, bodyRows);
+  const offset = headerRow ? 1 : 0;
+
+  const rows: NormalizedCell[][] = Array.from({ length: bodyRows.length + offset }, () => []);
+
+  for (const gc of grid.headerCells) {
+    rows[0].push({ text: normalizeText(gc.el.textContent), row: 0, col: gc.col, colspan: gc.colspan, rowspan: gc.rowspan, header: true });
+  }
+
+  for (const gc of grid.bodyCells) {
+    const row = gc.row + offset;
+    rows[row].push({ text: normalizeText(gc.el.textContent), row, col: gc.col, colspan: gc.colspan, rowspan: gc.rowspan, header: false });
+  }
+
+  const cols = Math.max(grid.expectedCols, ...rows.map(r => r.reduce((max, c) => Math.max(max, c.col + c.colspan), 0)));
+
+  return { cols, rows };
+};
+
+// Matriz linha x coluna: cada posição aponta para a célula que a cobre
+const toSlots = (grid: NormalizedGrid): (Slot | null)[][] => {
+  const slots: (Slot | null)[][] = grid.rows.map(() => new Array(grid.cols).fill(null));
+
+  grid.rows.forEach(cells => {
+    cells.forEach(cell => {
+      for (let r = cell.row; r < Math.min(cell.row + cell.rowspan, grid.rows.length); r++) {
+        for (let c = cell.col; c < Math.min(cell.col + cell.colspan, grid.cols); c++) {
+          if (!slots[r][c]) slots[r][c] = { cell, anchor: r === cell.row && c === cell.col };
+        }
+      }
+    });
+  });
+
+  return slots;
+};
+
+// ============================================================================
+// ALINHAMENTO (LCS)
+// ============================================================================
+
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/\s+/).filter(Boolean));
+
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 && tb.size === 0) return 1;
+  let inter = 0;
+  for (const t of ta) if (tb.has(t)) inter++;
+  return inter / (ta.size + tb.size - inter);
+};
+
+// Retorna pares [i, j] alinhados entre `a` e `b`
+const align = (a: string[], b: string[]): Array<[number, number]> => {
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i][j] = similarity(a[i], b[j]) >= MIN_SIMILARITY
+        ? dp[i + 1][j + 1] + 1
+        : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (similarity(a[i], b[j]) >= MIN_SIMILARITY && dp[i][j] === dp[i + 1][j + 1] + 1) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return fillGaps(pairs, a, b);
+};
+
+// Entre dois pares alinhados, casa por posição o que ainda tiver algum token em comum
+// (uma linha editada vira "alterada" em vez de removida + adicionada)
+const fillGaps = (pairs: Array<[number, number]>, a: string[], b: string[]): Array<[number, number]> => {
+  const result: Array<[number, number]> = [];
+  const bounds: Array<[number, number]> = [...pairs, [a.length, b.length]];
+  let prevI = 0;
+  let prevJ = 0;
+
+  for (const [i, j] of bounds) {
+    for (let k = 0; prevI + k < i && prevJ + k < j; k++) {
+      if (similarity(a[prevI + k], b[prevJ + k]) > 0) result.push([prevI + k, prevJ + k]);
+    }
+    if (i < a.length && j < b.length) result.push([i, j]);
+    prevI = i + 1;
+    prevJ = j + 1;
+  }
+
+  return result;
+};
+
+const rowSignature = (slots: (Slot | null)[]): string =>
+  slots.filter(s => s?.anchor).map(s => s!.cell.text).join(' ');
+
+const columnSignature = (slots: (Slot | null)[][], col: number): string =>
+  slots.map(row => (row[col]?.anchor ? row[col]!.cell.text : '')).join(' ');
+
+const missing = (total: number, matched: Set<number>): number[] =>
+  Array.from({ length: total }, (_, i) => i).filter(i => !matched.has(i));
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+export const diffGrids = (original: NormalizedGrid, repaired: NormalizedGrid): TableDiff => {
+  const a = toSlots(original);
+  const b = toSlots(repaired);
+
+  const rowPairs = align(a.map(rowSignature), b.map(rowSignature));
+  const colPairs = align(
+    Array.from({ length: original.cols }, (_, c) => columnSignature(a, c)),
+    Array.from({ length: repaired.cols }, (_, c) => columnSignature(b, c))
+  );
+
+  const cells: CellChange[] = [];
+
+  for (const [ra, rb] of rowPairs) {
+    for (const [ca, cb] of colPairs) {
+      const sa = a[ra][ca];
+      const sb = b[rb][cb];
+      if (!sa?.anchor && !sb?.anchor) continue;
+
+      const position = { original: { row: ra, col: ca }, repaired: { row: rb, col: cb } };
+      const before = sa?.cell;
+      const after = sb?.cell;
+
+      if ((before?.text ?? '') !== (after?.text ?? '')) {
+        cells.push({ kind: 'text', ...position, before: before?.text ?? '', after: after?.text ?? '' });
+      }
+      if ((before?.colspan ?? 1) !== (after?.colspan ?? 1)) {
+        cells.push({ kind: 'colspan', ...position, before: before?.colspan ?? 1, after: after?.colspan ?? 1 });
+      }
+      if ((before?.rowspan ?? 1) !== (after?.rowspan ?? 1)) {
+        cells.push({ kind: 'rowspan', ...position, before: before?.rowspan ?? 1, after: after?.rowspan ?? 1 });
+      }
+    }
+  }
+
+  const rows = {
+    added: missing(b.length, new Set(rowPairs.map(([, j]) => j))),
+    removed: missing(a.length, new Set(rowPairs.map(([i]) => i))),
+  };
+  const columns = {
+    added: missing(repaired.cols, new Set(colPairs.map(([, j]) => j))),
+    removed: missing(original.cols, new Set(colPairs.map(([i]) => i))),
+  };
+
+  return {
+    rows,
+    columns,
+    cells,
+    summary: {
+      rowsAdded: rows.added.length,
+      rowsRemoved: rows.removed.length,
+      columnsAdded: columns.added.length,
+      columnsRemoved: columns.removed.length,
+      cellsChanged: new Set(cells.map(c => `${c.repaired.row}:${c.repaired.col}`)).size,
+      identical: rows.added.length + rows.removed.length + columns.added.length + columns.removed.length + cells.length === 0,
+    },
+  };
+};
+
+// ============================================================================
+// RENDERIZAÇÃO HTML (para revisores)
+// ============================================================================
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const DIFF_STYLES = `
+  .tr-diff { border-collapse: collapse; font-family: sans-serif; font-size: 13px; }
+  .tr-diff td, .tr-diff th { border: 1px solid #ccc; padding: 4px 6px; vertical-align: top; }
+  .tr-diff .diff-added { background: #e6ffed; }
+  .tr-diff .diff-removed { background: #ffeef0; text-decoration: line-through; color: #86181d; }
+  .tr-diff .diff-changed { background: #fff5b1; }
+  .tr-diff del { color: #86181d; background: #ffeef0; }
+  .tr-diff ins { color: #22863a; background: #e6ffed; text-decoration: none; }
+  .tr-diff .diff-span { display: block; font-size: 11px; color: #6a737d; }
+`;
+
+// Desenha o grid reparado, marcando o que mudou; linhas removidas do original vão ao final
+export const renderDiffHtml = (original: NormalizedGrid, repaired: NormalizedGrid, diff: TableDiff): string => {
+  const addedRows = new Set(diff.rows.added);
+  const addedCols = new Set(diff.columns.added);
+
+  const changesAt = new Map<string, CellChange[]>();
+  for (const change of diff.cells) {
+    const key = `${change.repaired.row}:${change.repaired.col}`;
+    changesAt.set(key, [...(changesAt.get(key) || []), change]);
+  }
+
+  const renderCell = (cell: NormalizedCell, rowAdded: boolean): string => {
+    const tag = cell.header ? 'th' : 'td';
+    const spans = `${cell.colspan > 1 ? ` colspan="${cell.colspan}"` : ''}${cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : ''}`;
+    const changes = changesAt.get(`${cell.row}:${cell.col}`) || [];
+
+    if (rowAdded || addedCols.has(cell.col)) {
+      return `<${tag}${spans} class="diff-added">${escapeHtml(cell.text)}</${tag}>`;
+    }
+    if (changes.length === 0) {
+      return `<${tag}${spans}>${escapeHtml(cell.text)}</${tag}>`;
+    }
+
+    const parts = changes.map(ch => ch.kind === 'text'
+      ? `<del>${escapeHtml(String(ch.before))}</del> <ins>${escapeHtml(String(ch.after))}</ins>`
+      : `<span class="diff-span">${ch.kind}: ${ch.before} → ${ch.after}</span>`);
+    if (!changes.some(ch => ch.kind === 'text')) parts.unshift(escapeHtml(cell.text));
+
+    return `<${tag}${spans} class="diff-changed">${parts.join('')}</${tag}>`;
+  };
+
+  const body = repaired.rows.map((cells, r) =>
+    `<tr>${cells.map(cell => renderCell(cell, addedRows.has(r))).join('')}</tr>`
+  );
+
+  for (const r of diff.rows.removed) {
+    const cells = original.rows[r] || [];
+    body.push(`<tr class="diff-removed">${cells.map(cell => `<td>${escapeHtml(cell.text)}</td>`).join('')}</tr>`);
+  }
+
+  return `<style>${DIFF_STYLES}</style><table class="tr-diff">${body.join('')}</table>`;
+};
@@ -0,0 +1,115 @@
+/**
+ * ESTIMATE SERVICE
+ *
+ * Estimativa de custo e tempo de um batch antes de enfileirar (dry run e resposta do upload).
+ * Tokens de prompt vêm do prompt real (estimateRepairUsage); a ETA usa a duração média
+ * histórica das tasks, a concorrência do worker e o rate limit da fila.
+ */
+
+import { env } from '../config/env.js';
+import { getPricing } from '../config/pricing.js';
+import { db } from './dbService.js';
+import { countExpectedCols, estimateRepairUsage } from './repairService.js';
+import { calculateCostBRL, getProvider, parseProviderChain } from './providers/index.js';
+import type { RepairContext, TokenUsage } from '../utils/types.js';
+
+// Sem histórico no banco: ~5s por task
+const DEFAULT_TASK_DURATION_MS = 5000;
+
+export interface EstimateInput {
+  rawHtml: string;
+  context: RepairContext;
+}
+
+export interface ProviderCostEstimate {
+  provider: string;
+  model: string;
+  configured: boolean;
+  costBRL: number; // custo se todas as tasks forem para este provider
+}
+
+export interface EtaEstimate {
+  minutes: number;
+  avgTaskSeconds: number;
+  source: 'history' | 'default';
+  concurrency: number;
+  ratePerMinute: number;
+}
+
+export interface BatchEstimate {
+  aiTasks: number;
+  tokens: {
+    promptPerTask: number;
+    completionPerTask: number;
+    totalPrompt: number;
+    totalCompletion: number;
+  };
+  costs: ProviderCostEstimate[];
+  projectedCostBRL: number; // primeiro provider configurado da cadeia
+  eta: EtaEstimate;
+}
+
+// ==========================================
+// TEMPO
+// ==========================================
+
+// `historicalMs` evita repetir a query quando várias ETAs são calculadas juntas (listagem)
+export async function estimateEta(taskCount: number, historicalMs?: number | null): Promise<EtaEstimate> {
+  const historical = historicalMs !== undefined ? historicalMs : await db.getAverageTaskDurationMs();
+  const avgMs = historical ?? DEFAULT_TASK_DURATION_MS;
+
+  // Vazão limitada pela concorrência do worker e pelo limiter da fila
+  const byConcurrency = env.WORKER_CONCURRENCY * (60_000 / avgMs);
+  const perMinute = Math.min(byConcurrency, env.RATE_LIMIT_PER_MINUTE);
+
+  return {
+    minutes: taskCount > 0 ? Math.ceil(taskCount / perMinute) : 0,
+    avgTaskSeconds: Math.round(avgMs / 100) / 10,
+    source: historical === null ? 'default' : 'history',
+    concurrency: env.WORKER_CONCURRENCY,
+    ratePerMinute: env.RATE_LIMIT_PER_MINUTE,
+  };
+}
+
+// ==========================================
+// CUSTO + TEMPO
+// ==========================================
+
+// Soma os tokens estimados em `total` (a auditoria em streaming acumula chunk a chunk)
+export const sumRepairUsage = (
+  tasks: EstimateInput[],
+  total: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+): TokenUsage => {
+  for (const task of tasks) {
+    const usage = estimateRepairUsage(task.rawHtml, countExpectedCols(task.rawHtml), task.context);
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+  }
+  return total;
+};
+
+export async function estimateBatch(total: TokenUsage, count: number, strategy: string | undefined): Promise<BatchEstimate> {
+  const costs = parseProviderChain(strategy).map((name): ProviderCostEstimate => {
+    const provider = getProvider(name)!;
+    return {
+      provider: name,
+      model: provider.model,
+      configured: provider.isConfigured(),
+      costBRL: calculateCostBRL(total, getPricing(name, provider.model)),
+    };
+  });
+
+  return {
+    aiTasks: count,
+    tokens: {
+      promptPerTask: count > 0 ? Math.round(total.promptTokens / count) : 0,
+      completionPerTask: count > 0 ? Math.round(total.completionTokens / count) : 0,
+      totalPrompt: total.promptTokens,
+      totalCompletion: total.completionTokens,
+    },
+    costs,
+    projectedCostBRL: costs.find(c => c.configured)?.costBRL ?? 0,
+    eta: await estimateEta(count),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * EVENT SERVICE
+ *
+ * Pub/Sub no Redis para eventos de batch.
+ * API e worker rodam em processos separados: o worker publica,
+ * a API escuta e repassa para os WebSockets conectados.
+ */
+
+import { Redis } from 'ioredis';
+import { env } from '../config/env.js';
+import { createLogger } from '../utils/logger.js';
+import type { BatchEvent } from '../utils/types.js';
+
+const log = createLogger('eventService');
+
+const CHANNEL_PREFIX = 'tablerepair:batch:';
+
+type BatchEventListener = (event: BatchEvent) => void;
+
+// Conexões criadas sob demanda (subscriber não pode publicar)
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+
+const listeners = new Map<string, Set<BatchEventListener>>();
+
+const channelFor = (batchId: string): string => `${CHANNEL_PREFIX}${batchId}`;
+
+const getPublisher = (): Redis => {
+  if (!publisher) {
+    publisher = new Redis(env.REDIS_URL, { maxRetriesPerRequest: null });
+    publisher.on('error', (err: Error) => log.error('Redis publisher erro', { error: err.message }));
+  }
+  return publisher;
+};
+
+const getSubscriber = (): Redis => {
+  if (!subscriber) {
+    subscriber = new Redis(env.REDIS_URL, { maxRetriesPerRequest: null });
+    subscriber.on('error', (err: Error) => log.error('Redis subscriber erro', { error: err.message }));
+    subscriber.on('message', (channel: string, message: string) => {
+      const batchId = channel.slice(CHANNEL_PREFIX.length);
+      const batchListeners = listeners.get(batchId);
+      if (!batchListeners || batchListeners.size === 0) return;
+
+      let event: BatchEvent;
+      try {
+        event = JSON.parse(message);
+      } catch {
+        log.warn('Evento inválido descartado', { channel });
+        return;
+      }
+
+      for (const listener of batchListeners) {
+        listener(event);
+      }
+    });
+  }
+  return subscriber;
+};
+
+// ==========================================
+// PUBLISH
+// ==========================================
+
+export async function publishBatchEvent(event: BatchEvent): Promise<void> {
+  try {
+    await getPublisher().publish(channelFor(event.batchId), JSON.stringify(event));
+  } catch (error: any) {
+    // Eventos são best-effort: nunca devem derrubar o processamento
+    log.warn('Falha ao publicar evento', { batchId: event.batchId, type: event.type, error: error.message });
+  }
+}
+
+// ==========================================
+// SUBSCRIBE
+// ==========================================
+
+export async function subscribeToBatch(batchId: string, listener: BatchEventListener): Promise<() => Promise<void>> {
+  let batchListeners = listeners.get(batchId);
+
+  if (!batchListeners) {
+    batchListeners = new Set();
+    listeners.set(batchId, batchListeners);
+    await getSubscriber().subscribe(channelFor(batchId));
+    log.debug('Inscrito no canal do batch', { batchId });
+  }
+
+  batchListeners.add(listener);
+
+  return async () => {
+    const current = listeners.get(batchId);
+    if (!current) return;
+
+    current.delete(listener);
+
+    if (current.size === 0) {
+      listeners.delete(batchId);
+      await getSubscriber().unsubscribe(channelFor(batchId));
+      log.debug('Desinscrito do canal do batch', { batchId });
+    }
+  };
+}
+
+// Graceful shutdown
+export async function closeEvents(): Promise<void> {
+  listeners.clear();
+  if (subscriber) {
+    subscriber.disconnect();
+    subscriber = null;
+  }
+  if (publisher) {
+    publisher.disconnect();
+    publisher = null;
+  }
+}
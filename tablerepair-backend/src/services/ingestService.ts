@@ -0,0 +1,472 @@
+/**
+ * INGEST SERVICE
+ *
+ * Auditoria em background de um batch recém-enviado (fila "audit"): lê as questões do
+ * arquivo em streaming, audita em shards no pool de threads (auditPool) e cria as tasks
+ * em chunks (createManyTasks), enfileirando os reparos de cada chunk sem esperar o fim
+ * do arquivo. Os shards são consumidos em ordem, então as tasks saem iguais às da
+ * execução serial.
+ */
+
+import type { Batch } from '@prisma/client';
+import { env } from '../config/env.js';
+import { addBulkRepairJobs, cancelBatchJobs } from '../config/queue.js';
+import { db } from './dbService.js';
+import { auditShardParallel, auditThreadCount } from './auditPool.js';
+import { compileAuditRules } from './auditRules.js';
+import type { CompiledAuditRules } from './auditRules.js';
+import {
+  autoFixMarkdownTable,
+  autoFixTable,
+  extractSwallowedContent,
+  mergeSplitTables,
+  RULE_FIXABLE_TYPES,
+} from './ruleRepairService.js';
+import type { AutoFixResult } from './ruleRepairService.js';
+import { findMarkdownTables } from './markdownTableService.js';
+import { fingerprintMarkdownTable, fingerprintTables } from './tableFingerprint.js';
+import { estimateBatch, sumRepairUsage } from './estimateService.js';
+import { checkBatchCompletion } from './outputService.js';
+import { CACHE_PROVIDER, findCachedRepairs } from './repairCacheService.js';
+import { streamQuestionShards } from './questionStream.js';
+import { getInputAdapter } from './inputFormats/index.js';
+import { createLogger } from '../utils/logger.js';
+import { getFieldValue } from '../utils/fieldPaths.js';
+import type {
+  AuditJobPayload,
+  AuditRules,
+  AuditShard,
+  BatchPriority,
+  Issue,
+  JobPayload,
+  Question,
+  RepairContext,
+  SeverityFilter,
+  ShardAudit,
+  TaskCreateInput,
+  TokenUsage,
+} from '../utils/types.js';
+
+const log = createLogger('ingestService');
+
+interface AuditTotals {
+  questions: number;
+  tables: number;
+  bad: number;
+  warn: number;
+  issues: number; // após o filtro de severidade
+  tasks: number;
+  rulesFixed: number;
+  cacheHits: number;
+  usage: TokenUsage; // dry run: tokens estimados das tasks que iriam para a IA
+}
+
+const matchesSeverity = (filter: SeverityFilter) => (issue: Issue): boolean =>
+  filter === 'BAD' ? issue.severity === 'BAD' : true;
+
+const tableKey = (t: { questionIndex: number; field: string; tableIndex: number }): string =>
+  `${t.questionIndex}-${t.field}-${t.tableIndex}`;
+
+// Texto de contexto do prompt: o campo com esse nome entre os campos do batch
+// (ex: "dados.enunciado"), senão o campo de topo; só texto
+const contextText = (q: Question, auditFields: readonly string[], name: string): string | undefined => {
+  const path = auditFields.find(f => !f.includes('[') && f.split('.').pop() === name) ?? name;
+  const value = q ? getFieldValue(q, path) ?? q[name] : undefined;
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Plano de reparo de uma tabela: contexto para o prompt + resultado do auto-fixer
+const planTableRepair = (
+  tableIssues: Issue[],
+  q: Question,
+  autoFix: boolean,
+  keepIssue: (issue: Issue) => boolean,
+  auditRules: CompiledAuditRules,
+  auditFields: readonly string[]
+) => {
+  const issue = tableIssues[0];
+  const context: RepairContext = {
+    materia: q?.materia,
+    assunto: q?.assunto,
+    topico: q?.topico,
+    enunciado: contextText(q, auditFields, 'enunciado')?.substring(0, 1000),
+    texto_associado: contextText(q, auditFields, 'texto_associado')?.substring(0, 2000),
+    qid: issue.qid,
+    field: issue.field,
+  };
+
+  const auditContext = {
+    qid: issue.qid,
+    questionIndex: issue.questionIndex,
+    field: issue.field,
+    tableIndex: issue.tableIndex,
+    fullText: issue.fullText,
+  };
+
+  // CONTENT_SWALLOW tem modo próprio (mesmo sem autoFix): a IA devolveria só a tabela
+  let fix: AutoFixResult | null = null;
+  if (issue.type === 'CONTENT_SWALLOW') {
+    fix = extractSwallowedContent(issue.rawHtml, auditContext, auditRules);
+  } else if (issue.type === 'SPLIT_TABLE') {
+    fix = mergeSplitTables(issue.rawHtml, auditContext, keepIssue, auditRules, autoFix);
+  } else if (autoFix && issue.type === 'MARKDOWN_TABLE_IN_FIELD') {
+    fix = autoFixMarkdownTable(issue.rawHtml, auditContext, keepIssue, auditRules);
+  } else if (autoFix && tableIssues.some(i => RULE_FIXABLE_TYPES.has(i.type))) {
+    fix = autoFixTable(issue.rawHtml, auditContext, keepIssue, auditRules);
+  }
+
+  return {
+    key: tableKey(issue),
+    issue,
+    context,
+    fix,
+    fixedByRules: !!fix && fix.changed && fix.remaining.length === 0,
+    jobHtml: fix?.changed ? fix.html : issue.rawHtml,
+  };
+};
+
+type TablePlan = ReturnType<typeof planTableRepair>;
+
+// MARKDOWN_TABLE_IN_FIELD vem uma vez por campo: vira uma issue por tabela Markdown,
+// com tableIndex = posição da tabela no campo e rawHtml = o Markdown dela
+const splitMarkdownIssue = (issue: Issue): Issue[] => {
+  if (issue.type !== 'MARKDOWN_TABLE_IN_FIELD') return [issue];
+
+  const blocks = findMarkdownTables(issue.fullText);
+  if (blocks.length === 0) return [issue];
+
+  return blocks.map((block, tableIndex) => ({ ...issue, tableIndex, rawHtml: block.markdown }));
+};
+
+// Uma task por tabela (várias issues da mesma tabela viram um único reparo)
+const planTables = (
+  issues: Issue[],
+  questionAt: (questionIndex: number) => Question,
+  autoFix: boolean,
+  keepIssue: (issue: Issue) => boolean,
+  auditRules: CompiledAuditRules,
+  auditFields: readonly string[]
+): TablePlan[] => {
+  const expanded = issues.flatMap(splitMarkdownIssue);
+
+  // SPLIT_TABLE: as tabelas da sequência viram uma task só (FIELD_REPAIR), que também
+  // leva as issues próprias de cada fragmento
+  const spanKeys = new Map<string, string>();
+  for (const issue of expanded) {
+    if (issue.type !== 'SPLIT_TABLE') continue;
+    for (let offset = 0; offset < (issue.tableSpan ?? 1); offset++) {
+      spanKeys.set(tableKey({ ...issue, tableIndex: issue.tableIndex + offset }), tableKey(issue));
+    }
+  }
+
+  const issuesByTable = new Map<string, Issue[]>();
+  for (const issue of expanded) {
+    const key = spanKeys.get(tableKey(issue)) ?? tableKey(issue);
+    const existing = issuesByTable.get(key) || [];
+    // A issue da sequência vai na frente: ela define o reparo
+    if (issue.type === 'SPLIT_TABLE') existing.unshift(issue);
+    else existing.push(issue);
+    issuesByTable.set(key, existing);
+  }
+
+  return Array.from(issuesByTable.values()).map(tableIssues =>
+    planTableRepair(tableIssues, questionAt(tableIssues[0].questionIndex), autoFix, keepIssue, auditRules, auditFields)
+  );
+};
+
+// Endereço estável da tabela original: a saída localiza o alvo por ele, não pela posição
+const fingerprintPlan = ({ issue }: TablePlan) =>
+  issue.type === 'MARKDOWN_TABLE_IN_FIELD'
+    ? fingerprintMarkdownTable(issue.fullText, issue.tableIndex)
+    : fingerprintTables(issue.fullText, issue.tableIndex, issue.tableSpan);
+
+// ==========================================
+// CHUNKS
+// ==========================================
+
+// Cria as tasks de um chunk e enfileira as que vão para a IA
+// Remove da fila os jobs do batch e cancela as tasks que eles processariam
+async function discardAuditTasks(batchId: string): Promise<void> {
+  const removed = await cancelBatchJobs(batchId);
+  const cancelled = await db.cancelOpenTasks(batchId);
+  if (removed > 0 || cancelled > 0) {
+    log.warn('Audit failed after creating tasks: jobs cancelled', { batchId, removed, cancelled });
+  }
+}
+
+async function flushPlans(batch: Batch, plans: TablePlan[], totals: AuditTotals): Promise<void> {
+  if (plans.length === 0) return;
+
+  // RepairCache: tabela já reparada (e aceita) num upload anterior não vai para a IA
+  const cachePlans = plans.filter(plan => !plan.fixedByRules);
+  const cachedHtml = await findCachedRepairs(batch, cachePlans.map(plan => plan.issue.rawHtml));
+  const cached = new Map<string, string>();
+  cachePlans.forEach((plan, i) => {
+    if (cachedHtml[i] !== null) cached.set(plan.key, cachedHtml[i]!);
+  });
+
+  const aiPlans = cachePlans.filter(plan => !cached.has(plan.key));
+  totals.tasks += plans.length;
+  totals.rulesFixed += plans.length - cachePlans.length;
+  totals.cacheHits += cached.size;
+
+  if (batch.dryRun) {
+    sumRepairUsage(aiPlans.map(plan => ({ rawHtml: plan.jobHtml, context: plan.context })), totals.usage);
+    return;
+  }
+
+  const inputs = plans.map((plan): TaskCreateInput => ({
+    batchId: batch.id,
+    questionIndex: plan.issue.questionIndex,
+    qid: String(plan.issue.qid),
+    field: plan.issue.field,
+    tableIndex: plan.issue.tableIndex,
+    tableSpan: plan.issue.tableSpan,
+    taskType: plan.issue.type === 'SPLIT_TABLE' ? 'FIELD_REPAIR' : 'REPAIR',
+    ...fingerprintPlan(plan),
+    issueType: plan.issue.type,
+    severity: plan.issue.severity,
+    rawHtml: plan.issue.rawHtml,
+    context: plan.context,
+    // Auto-fixer: regras determinísticas antes da IA
+    ...(plan.fixedByRules ? {
+      status: batch.requireReview ? 'AWAITING_REVIEW' : 'COMPLETED',
+      repairedHtml: plan.fix!.html,
+      provider: 'rules',
+    } : {}),
+    ...(cached.has(plan.key) ? {
+      status: batch.requireReview ? 'AWAITING_REVIEW' : 'COMPLETED',
+      repairedHtml: cached.get(plan.key),
+      provider: CACHE_PROVIDER,
+    } : {}),
+  }));
+
+  const tasks = await db.createManyTasks(inputs);
+  const taskIdByKey = new Map(tasks.map(task => [tableKey(task), task.id]));
+
+  const jobs: JobPayload[] = [];
+
+  for (const plan of plans) {
+    const { issue, context, fix } = plan;
+    const taskId = taskIdByKey.get(plan.key)!;
+
+    if (cached.has(plan.key)) {
+      await db.createLog(batch.id, 'INFO', 'Table repaired from cache', {
+        taskId,
+        questionIndex: issue.questionIndex,
+        field: issue.field,
+        metadata: { provider: CACHE_PROVIDER },
+      });
+      continue;
+    }
+
+    if (fix?.moved) {
+      await db.createLog(batch.id, 'INFO', 'Swallowed content moved out of table', {
+        taskId,
+        questionIndex: issue.questionIndex,
+        field: issue.field,
+        metadata: { provider: 'rules', applied: fix.applied, moved: fix.moved, tableIssues: fix.tableIssues },
+      });
+      continue;
+    }
+
+    if (fix && plan.fixedByRules) {
+      await db.createLog(batch.id, 'INFO', 'Table repaired by rules', {
+        taskId,
+        questionIndex: issue.questionIndex,
+        field: issue.field,
+        metadata: { provider: 'rules', applied: fix.applied },
+      });
+      continue;
+    }
+
+    if (fix?.error) {
+      // Markdown malformado: a IA converte a partir do original
+      await db.createLog(batch.id, 'DEBUG', 'Markdown table not converted, sending to AI', {
+        taskId,
+        questionIndex: issue.questionIndex,
+        field: issue.field,
+        metadata: { error: fix.error },
+      });
+    }
+
+    if (fix?.changed) {
+      // Correção parcial: a IA recebe a tabela já pré-corrigida
+      await db.createLog(batch.id, 'DEBUG', 'Rules applied, issues remain for AI', {
+        taskId,
+        questionIndex: issue.questionIndex,
+        field: issue.field,
+        metadata: { applied: fix.applied, remaining: fix.remaining.map(i => i.type) },
+      });
+    }
+
+    jobs.push({
+      taskId,
+      batchId: batch.id,
+      questionIndex: issue.questionIndex,
+      qid: String(issue.qid),
+      field: issue.field,
+      tableIndex: issue.tableIndex,
+      rawHtml: plan.jobHtml,
+      context,
+    });
+  }
+
+  // Resolvidas sem IA (regras ou cache) + estatística do cache
+  const resolved = plans.length - aiPlans.length;
+  if (resolved > 0 || cachePlans.length > 0) {
+    await db.incrementBatchCounters(batch.id, {
+      successCount: resolved,
+      ...(batch.bypassCache ? {} : { cacheHits: cached.size, cacheMisses: aiPlans.length }),
+    });
+  }
+
+  if (jobs.length > 0) {
+    await addBulkRepairJobs(jobs, { tenantId: batch.tenantId, priority: batch.priority as BatchPriority });
+  }
+}
+
+// ==========================================
+// AUDITORIA
+// ==========================================
+
+export async function runBatchAudit({ batchId, severityFilter, autoFix }: AuditJobPayload): Promise<void> {
+  const batch = await db.getBatch(batchId);
+  if (!batch || batch.status === 'CANCELLED') return;
+
+  // Job reexecutado (worker caiu no meio): as tasks já criadas têm jobs na fila
+  const existing = await db.getBatchProgress(batchId);
+  if (existing && existing.totalTasks > 0) {
+    throw new Error('Audit interrupted after creating tasks; upload the file again');
+  }
+
+  await db.updateBatchStatus(batchId, 'PROCESSING', 'AUDIT');
+
+  const start = Date.now();
+  const keepIssue = matchesSeverity(severityFilter);
+  // Regras gravadas no batch no upload (perfil + overrides); null = padrão
+  const rules = batch.auditRules as AuditRules | null;
+  const auditRules = compileAuditRules(rules);
+  const totals: AuditTotals = {
+    questions: 0,
+    tables: 0,
+    bad: 0,
+    warn: 0,
+    issues: 0,
+    tasks: 0,
+    rulesFixed: 0,
+    cacheHits: 0,
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  };
+
+  let pending: TablePlan[] = [];
+
+  // Consome um shard auditado; false = batch cancelado no meio
+  const consume = async (shard: AuditShard, audit: ShardAudit): Promise<boolean> => {
+    totals.questions += shard.questions.length;
+    totals.tables += audit.tables;
+
+    for (const issue of audit.issues) {
+      if (issue.severity === 'BAD') totals.bad++;
+      else totals.warn++;
+    }
+
+    const kept = audit.issues.filter(keepIssue);
+    totals.issues += kept.length;
+    pending.push(...planTables(
+      kept, index => shard.questions[index - shard.startIndex], autoFix, keepIssue, auditRules, batch.auditFields
+    ));
+
+    if (pending.length < env.AUDIT_CHUNK_SIZE) return true;
+
+    await flushPlans(batch, pending, totals);
+    pending = [];
+
+    // Progresso parcial + cancelamento durante a auditoria
+    const current = await db.updateBatchCounters(batchId, {
+      totalQuestions: totals.questions,
+      totalTables: totals.tables,
+      totalIssues: totals.issues,
+    });
+    return current.status !== 'CANCELLED';
+  };
+
+  // Até 2 shards por thread em voo; o resultado é consumido na ordem do arquivo
+  const maxInFlight = Math.max(1, auditThreadCount() * 2);
+  const inFlight: Array<{ shard: AuditShard; audit: Promise<ShardAudit> }> = [];
+
+  const consumeNext = async (): Promise<boolean> => {
+    const { shard, audit } = inFlight.shift()!;
+    return consume(shard, await audit);
+  };
+
+  // Erro no meio do arquivo (JSON truncado, shard inválido): os chunks já gravados têm
+  // jobs na fila; cancela antes de o worker marcar o batch FAILED
+  try {
+    const questions = getInputAdapter(batch.inputFormat).readQuestions(batch.inputFilePath);
+    for await (const shard of streamQuestionShards(questions, env.AUDIT_SHARD_SIZE)) {
+      const audit = auditShardParallel({ ...shard, rules, fields: batch.auditFields });
+      audit.catch(() => undefined); // rejeição tratada quando o shard for consumido
+      inFlight.push({ shard, audit });
+
+      if (inFlight.length >= maxInFlight && !(await consumeNext())) {
+        log.info('Audit stopped: batch cancelled', { batchId, questions: totals.questions });
+        return;
+      }
+    }
+
+    while (inFlight.length > 0) {
+      if (!(await consumeNext())) {
+        log.info('Audit stopped: batch cancelled', { batchId, questions: totals.questions });
+        return;
+      }
+    }
+
+    await flushPlans(batch, pending, totals);
+
+    if (totals.questions === 0) {
+      throw new Error('JSON has no questions');
+    }
+  } catch (error) {
+    await discardAuditTasks(batchId);
+    throw error;
+  }
+
+  await db.updateBatchCounters(batchId, {
+    totalQuestions: totals.questions,
+    totalTables: totals.tables,
+    totalIssues: totals.issues,
+  });
+
+  const summary = {
+    time: Date.now() - start,
+    totalTables: totals.tables,
+    bad: totals.bad,
+    warn: totals.warn,
+    issues: totals.issues,
+    tasks: totals.tasks,
+    rulesFixed: totals.rulesFixed,
+    cacheHits: totals.cacheHits,
+  };
+
+  log.info('Audit complete', { batchId, questions: totals.questions, ...summary });
+
+  // Dry run: só a estimativa de custo/tempo
+  if (batch.dryRun) {
+    const estimate = await estimateBatch(totals.usage, totals.tasks - totals.rulesFixed - totals.cacheHits, batch.strategy);
+    await db.setBatchAuditSummary(batchId, { ...summary, estimate });
+    await db.updateBatchStatus(batchId, 'COMPLETED', 'DONE');
+    return;
+  }
+
+  await db.setBatchAuditSummary(batchId, summary);
+
+  const current = await db.getBatch(batchId);
+  if (!current || current.status === 'CANCELLED') return;
+
+  // Pausado durante a auditoria continua pausado
+  await db.updateBatchStatus(batchId, current.status === 'PAUSED' ? 'PAUSED' : 'PROCESSING', 'REPAIR');
+
+  // Nada para a IA (ou reparos já terminaram durante a auditoria): finaliza aqui
+  await checkBatchCompletion(batchId);
+}
@@ -0,0 +1,33 @@
+/**
+ * Helpers compartilhados pelos formatos de entrada
+ */
+
+import * as fs from 'fs/promises';
+import { readTextChunks } from '../questionStream.js';
+import type { TextInputAdapter } from '../../utils/types.js';
+
+type TextFormatDefinition = Omit<TextInputAdapter, 'readQuestions' | 'writeQuestions'>;
+
+// Formato de texto: lê o arquivo em streaming e grava a saída a partir do texto original
+export const textAdapter = (definition: TextFormatDefinition): TextInputAdapter => ({
+  ...definition,
+
+  readQuestions: filePath => definition.scan(readTextChunks(filePath)),
+
+  async writeQuestions(inputFilePath, outputFilePath, questions) {
+    const original = await fs.readFile(inputFilePath, 'utf-8');
+    await fs.writeFile(outputFilePath, definition.serialize(questions, original));
+  },
+});
+
+// Começo do arquivo sem BOM nem espaços
+export const headText = (head: Buffer): string =>
+  head.toString('utf-8').replace(/^[\uFEFF\s]+/, '');
+
+// Texto inteiro como um único chunk (arquivos de dentro do ZIP)
+export async function* singleChunk(text: string): AsyncGenerator<string> {
+  yield text;
+}
+
+// Quebra de linha do arquivo original (a saída usa a mesma)
+export const lineEnding = (text: string): string => (text.includes('\r\n') ? '\r\n' : '\n');
@@ -0,0 +1,175 @@
+/**
+ * CSV: primeira linha = nomes das colunas (campos da questão), uma questão por linha.
+ * RFC 4180 (aspas duplas, `""` dentro de aspas, quebras de linha dentro de células HTML),
+ * com separador `,`, `;` ou tab detectado no cabeçalho. A saída mantém as colunas, a ordem
+ * delas, o separador e a quebra de linha do original.
+ */
+
+import { headText, lineEnding, textAdapter } from './common.js';
+import type { Question } from '../../utils/types.js';
+
+const DELIMITERS = [',', ';', '\t'];
+
+type CsvState = 'FIELD_START' | 'UNQUOTED' | 'QUOTED' | 'QUOTE_IN_QUOTED';
+
+// Separador mais frequente fora de aspas na primeira linha
+const detectDelimiter = (text: string): string => {
+  const counts = new Map(DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+  for (const c of text) {
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && c === '\n') break;
+    else if (!quoted && counts.has(c)) counts.set(c, counts.get(c)! + 1);
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), DELIMITERS[0]);
+};
+
+// Recorta as linhas (registros) conforme os chunks chegam
+class CsvScanner {
+  delimiter: string | null = null;
+  private pending = ''; // texto antes de achar o fim da primeira linha
+  private state: CsvState = 'FIELD_START';
+  private field = '';
+  private row: string[] = [];
+  private rows = 0;
+
+  push(chunk: string): string[][] {
+    if (this.delimiter === null) {
+      this.pending += chunk;
+      if (!this.pending.includes('\n')) return [];
+      this.delimiter = detectDelimiter(this.pending.replace(/^\uFEFF/, ''));
+      chunk = this.pending.replace(/^\uFEFF/, '');
+      this.pending = '';
+    }
+
+    const out: string[][] = [];
+    const delimiter = this.delimiter;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+
+      switch (this.state) {
+        case 'QUOTED':
+          if (c === '"') this.state = 'QUOTE_IN_QUOTED';
+          else this.field += c;
+          break;
+
+        case 'QUOTE_IN_QUOTED':
+          if (c === '"') {
+            this.field += '"';
+            this.state = 'QUOTED';
+          } else if (c === delimiter) {
+            this.endField();
+          } else if (c === '\n') {
+            out.push(this.endRow());
+          } else if (c !== '\r') {
+            throw new Error(`Invalid CSV file: unexpected character after closing quote (row ${this.rows + 1})`);
+          }
+          break;
+
+        case 'FIELD_START':
+        case 'UNQUOTED':
+          if (c === '"' && this.state === 'FIELD_START') {
+            this.state = 'QUOTED';
+          } else if (c === delimiter) {
+            this.endField();
+          } else if (c === '\n') {
+            out.push(this.endRow());
+          } else if (c !== '\r') {
+            this.field += c;
+            this.state = 'UNQUOTED';
+          }
+          break;
+      }
+    }
+
+    return out;
+  }
+
+  end(): string[][] {
+    // Arquivo sem quebra de linha: o separador ainda não foi detectado
+    const pending = this.pending;
+    this.pending = '';
+    const out = pending ? this.push(`${pending}\n`) : [];
+    if (this.state === 'QUOTED') {
+      throw new Error(`Invalid CSV file: unterminated quoted field (row ${this.rows + 1})`);
+    }
+    if (this.state !== 'FIELD_START' || this.row.length > 0) out.push(this.endRow());
+    return out;
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.state = 'FIELD_START';
+  }
+
+  private endRow(): string[] {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    this.rows++;
+    return row;
+  }
+}
+
+// Linha vazia (só a quebra de linha) não é questão
+const isBlankRow = (row: string[]): boolean => row.length === 1 && row[0] === '';
+
+async function* scanRows(chunks: AsyncIterable<string>, scanner: CsvScanner): AsyncGenerator<string[]> {
+  for await (const chunk of chunks) {
+    yield* scanner.push(chunk).filter(row => !isBlankRow(row));
+  }
+  yield* scanner.end().filter(row => !isBlankRow(row));
+}
+
+const toQuestion = (header: string[], row: string[], rowNumber: number): Question => {
+  if (row.length > header.length) {
+    throw new Error(`Invalid CSV file: row ${rowNumber} has ${row.length} fields, header has ${header.length}`);
+  }
+  return Object.fromEntries(header.map((column, i) => [column, row[i] ?? '']));
+};
+
+const toCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const quoteCell = (value: string, delimiter: string): string =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const csvFormat = textAdapter({
+  format: 'csv',
+  extensions: ['.csv'],
+  contentType: 'text/csv; charset=utf-8',
+
+  sniff: head => !head.includes(0) && headText(head) !== '',
+
+  async *scan(chunks) {
+    let header: string[] | null = null;
+    let rowNumber = 0;
+
+    for await (const row of scanRows(chunks, new CsvScanner())) {
+      if (!header) {
+        const duplicate = row.find((column, i) => row.indexOf(column) !== i);
+        if (duplicate !== undefined) throw new Error(`Invalid CSV file: duplicate column "${duplicate}"`);
+        header = row;
+        continue;
+      }
+      yield toQuestion(header, row, ++rowNumber);
+    }
+  },
+
+  serialize(questions, originalText) {
+    const scanner = new CsvScanner();
+    const rows = [...scanner.push(originalText), ...scanner.end()].filter(row => !isBlankRow(row));
+    const header = rows[0] ?? [];
+    const delimiter = scanner.delimiter ?? DELIMITERS[0];
+    const eol = lineEnding(originalText);
+
+    const lines = [header, ...questions.map(q => header.map(column => toCell(q[column])))]
+      .map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter));
+    return lines.join(eol) + eol;
+  },
+});
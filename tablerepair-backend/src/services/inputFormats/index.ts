@@ -0,0 +1,65 @@
+/**
+ * REGISTRO DE FORMATOS DE ENTRADA
+ *
+ * Cada formato converte o arquivo enviado em questões (Question, uma por vez) e grava
+ * a saída reparada de volta no mesmo formato. `Batch.inputFormat` guarda o formato
+ * detectado no upload; ingestão, auditoria e geração da saída passam por aqui.
+ */
+
+import { open } from 'fs/promises';
+import { extname } from 'path';
+import { csvFormat } from './csvFormat.js';
+import { jsonFormat } from './jsonFormat.js';
+import { ndjsonFormat } from './ndjsonFormat.js';
+import { zipFormat } from './zipFormat.js';
+import type { InputAdapter, InputFormat } from '../../utils/types.js';
+
+// Bytes lidos do começo do arquivo para detecção/validação
+const HEAD_BYTES = 4096;
+
+const ADAPTERS: Record<InputFormat, InputAdapter> = {
+  json: jsonFormat,
+  ndjson: ndjsonFormat,
+  csv: csvFormat,
+  zip: zipFormat,
+};
+
+export const INPUT_FORMATS = ['json', 'ndjson', 'csv', 'zip'] as const;
+
+export const getInputAdapter = (format: string | null | undefined): InputAdapter => {
+  const adapter = ADAPTERS[(format || 'json') as InputFormat];
+  if (!adapter) {
+    throw new Error(`Unknown input format: ${format}. Available: ${INPUT_FORMATS.join(', ')}`);
+  }
+  return adapter;
+};
+
+// Formato pela extensão do nome do arquivo (null = extensão desconhecida)
+export const formatFromFileName = (fileName: string): InputFormat | null => {
+  const extension = extname(fileName).toLowerCase();
+  return INPUT_FORMATS.find(f => ADAPTERS[f].extensions.includes(extension)) ?? null;
+};
+
+export const readFileHead = async (filePath: string): Promise<Buffer> => {
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(HEAD_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEAD_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+// Extensão primeiro; sem extensão conhecida, o conteúdo (ZIP, depois JSON)
+export const detectInputFormat = (fileName: string, head: Buffer): InputFormat | null => {
+  const byName = formatFromFileName(fileName);
+  if (byName) return byName;
+  if (zipFormat.sniff(head)) return 'zip';
+  if (jsonFormat.sniff(head)) return 'json';
+  return null;
+};
+
+// "prova.csv" -> "prova_POS_TABELA.csv"
+export const outputFileName = (fileName: string): string =>
+  fileName.replace(/(\.[^.]+)?$/, '_POS_TABELA$1');
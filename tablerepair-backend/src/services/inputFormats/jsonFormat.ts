@@ -0,0 +1,22 @@
+/**
+ * JSON: `[...]` ou `{ "questoes": [...] }` (formato original do upload)
+ */
+
+import { scanQuestions } from '../questionStream.js';
+import { headText, textAdapter } from './common.js';
+
+export const jsonFormat = textAdapter({
+  format: 'json',
+  extensions: ['.json'],
+  contentType: 'application/json',
+
+  sniff: head => /^[[{]/.test(headText(head)),
+
+  scan: scanQuestions,
+
+  // Array continua array; o objeto mantém as outras chaves
+  serialize(questions, originalText) {
+    const original = JSON.parse(originalText.replace(/^\uFEFF/, ''));
+    return JSON.stringify(Array.isArray(original) ? questions : { ...original, questoes: questions }, null, 2);
+  },
+});
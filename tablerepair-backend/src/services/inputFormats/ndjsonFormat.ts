@@ -0,0 +1,53 @@
+/**
+ * NDJSON: uma questão (objeto JSON) por linha; linhas em branco são ignoradas
+ */
+
+import { headText, lineEnding, textAdapter } from './common.js';
+import type { Question } from '../../utils/types.js';
+
+const parseLine = (line: string, lineNumber: number): Question | null => {
+  const text = line.replace(/^\uFEFF/, '').trim();
+  if (text === '') return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid NDJSON file: line ${lineNumber} (${error.message})`);
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid NDJSON file: line ${lineNumber} is not an object`);
+  }
+  return value as Question;
+};
+
+export const ndjsonFormat = textAdapter({
+  format: 'ndjson',
+  extensions: ['.ndjson', '.jsonl'],
+  contentType: 'application/x-ndjson',
+
+  sniff: head => headText(head).startsWith('{'),
+
+  async *scan(chunks) {
+    let rest = '';
+    let lineNumber = 0;
+
+    for await (const chunk of chunks) {
+      const lines = (rest + chunk).split('\n');
+      rest = lines.pop()!;
+      for (const line of lines) {
+        const question = parseLine(line, ++lineNumber);
+        if (question) yield question;
+      }
+    }
+
+    const last = parseLine(rest, ++lineNumber);
+    if (last) yield last;
+  },
+
+  serialize(questions, originalText) {
+    const eol = lineEnding(originalText);
+    return questions.map(q => JSON.stringify(q)).join(eol) + eol;
+  },
+});
@@ -0,0 +1,216 @@
+/**
+ * Leitura e escrita mínima de arquivos ZIP (sem zip64 nem criptografia), sobre o zlib do Node.
+ * Suficiente para os pacotes de questões: entradas "stored" (0) ou "deflate" (8).
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const MB = 1024 * 1024;
+
+// Tamanho descompactado máximo (contra zip bomb); o texto da entrada vira uma string só
+export interface ZipLimits {
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+export const ZIP_LIMITS: ZipLimits = {
+  maxEntrySize: 256 * MB,
+  maxTotalSize: 512 * MB,
+};
+
+export interface ZipEntry {
+  name: string; // caminho dentro do ZIP ("provas/2020.json"); diretórios terminam em "/"
+  data: Buffer;
+  // Preservados na escrita (data/hora DOS e atributos do sistema de origem)
+  modTime: number;
+  modDate: number;
+  externalAttributes: number;
+}
+
+// ============================================================================
+// CRC-32 (zlib.crc32 só existe a partir do Node 20.15)
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// ============================================================================
+// LEITURA
+// ============================================================================
+
+const findEndOfCentralDir = (buffer: Buffer): number => {
+  const stop = Math.max(0, buffer.length - EOCD_SIZE - MAX_COMMENT);
+  for (let i = buffer.length - EOCD_SIZE; i >= stop; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIR) return i;
+  }
+  throw new Error('Invalid ZIP file: end of central directory not found');
+};
+
+const formatMB = (bytes: number): string => `${Math.round((bytes / MB) * 10) / 10} MB`;
+
+// Descompacta no máximo `size` bytes: um header que declara menos do que os dados têm
+// não consegue estourar a memória
+const inflateEntry = (name: string, raw: Buffer, size: number): Buffer => {
+  try {
+    return inflateRawSync(raw, { maxOutputLength: Math.max(1, size) });
+  } catch (error: any) {
+    const reason = error.code === 'ERR_BUFFER_TOO_LARGE' ? 'size mismatch' : error.message;
+    throw new Error(`Invalid ZIP file: ${name} is corrupted (${reason})`);
+  }
+};
+
+// Entradas na ordem do diretório central
+export function readZip(buffer: Buffer, limits: ZipLimits = ZIP_LIMITS): ZipEntry[] {
+  const eocd = findEndOfCentralDir(buffer);
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('Invalid ZIP file: zip64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error('Invalid ZIP file: corrupted central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const modTime = buffer.readUInt16LE(offset + 12);
+    const modDate = buffer.readUInt16LE(offset + 14);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString(flags & FLAG_UTF8 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('Invalid ZIP file: zip64 archives are not supported');
+    }
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Invalid ZIP file: ${name} is encrypted`);
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new Error(`Invalid ZIP file: local header of ${name} not found`);
+    }
+
+    // Limites pelo tamanho declarado, antes de descompactar
+    if (size > limits.maxEntrySize) {
+      throw new Error(`Invalid ZIP file: ${name} exceeds ${formatMB(limits.maxEntrySize)} uncompressed`);
+    }
+    totalSize += size;
+    if (totalSize > limits.maxTotalSize) {
+      throw new Error(`Invalid ZIP file: contents exceed ${formatMB(limits.maxTotalSize)} uncompressed`);
+    }
+
+    // Tamanhos do diretório central (o header local pode estar zerado com data descriptor)
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(start, start + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) data = Buffer.from(raw);
+    else if (method === METHOD_DEFLATE) data = inflateEntry(name, raw, size);
+    else throw new Error(`Invalid ZIP file: ${name} uses unsupported compression method ${method}`);
+
+    if (data.length !== size) {
+      throw new Error(`Invalid ZIP file: ${name} is corrupted (size mismatch)`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`Invalid ZIP file: ${name} is corrupted (CRC mismatch)`);
+    }
+
+    entries.push({ name, data, modTime, modDate, externalAttributes });
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// ESCRITA
+// ============================================================================
+
+export function writeZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const crc = crc32(entry.data);
+    const deflated = entry.data.length > 0 ? deflateRawSync(entry.data) : entry.data;
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORED;
+    const payload = method === METHOD_DEFLATE ? deflated : entry.data;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // versão necessária
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(entry.modTime, 10);
+    local.writeUInt16LE(entry.modDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(payload.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4); // versão que criou
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(entry.modTime, 12);
+    central.writeUInt16LE(entry.modDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(payload.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(entry.externalAttributes >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, payload);
+    centrals.push(central, name);
+    offset += local.length + name.length + payload.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(EOCD_SIZE);
+  eocd.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDir.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, eocd]);
+}
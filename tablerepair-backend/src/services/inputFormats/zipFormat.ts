@@ -0,0 +1,85 @@
+/**
+ * ZIP: vários arquivos de questões (.json, .ndjson/.jsonl, .csv) num pacote.
+ * As questões dos arquivos são concatenadas na ordem do ZIP (questionIndex contínuo);
+ * a saída é um ZIP com o mesmo layout: cada arquivo recebe as suas questões reparadas
+ * no formato dele e os demais arquivos (imagens, leia-me...) são copiados.
+ */
+
+import * as fs from 'fs/promises';
+import { extname } from 'path';
+import { csvFormat } from './csvFormat.js';
+import { jsonFormat } from './jsonFormat.js';
+import { ndjsonFormat } from './ndjsonFormat.js';
+import { singleChunk } from './common.js';
+import { readZip, writeZip, type ZipEntry } from './zipArchive.js';
+import type { InputAdapter, Question, TextInputAdapter } from '../../utils/types.js';
+
+const ENTRY_ADAPTERS: TextInputAdapter[] = [jsonFormat, ndjsonFormat, csvFormat];
+
+// Adaptador do arquivo de questões; undefined = entrada copiada como está
+const entryAdapter = (entry: ZipEntry): TextInputAdapter | undefined => {
+  if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/')) return undefined;
+  const extension = extname(entry.name).toLowerCase();
+  return ENTRY_ADAPTERS.find(a => a.extensions.includes(extension));
+};
+
+// Erros de parse indicam o arquivo de dentro do ZIP
+async function* scanEntry(entry: ZipEntry, adapter: TextInputAdapter): AsyncGenerator<Question> {
+  try {
+    yield* adapter.scan(singleChunk(entry.data.toString('utf-8')));
+  } catch (error: any) {
+    throw new Error(`${entry.name}: ${error.message}`);
+  }
+}
+
+const countQuestions = async (entry: ZipEntry, adapter: TextInputAdapter): Promise<number> => {
+  let count = 0;
+  for await (const _ of scanEntry(entry, adapter)) count++;
+  return count;
+};
+
+const readArchive = async (filePath: string): Promise<ZipEntry[]> => {
+  const entries = readZip(await fs.readFile(filePath));
+  if (!entries.some(entryAdapter)) {
+    throw new Error('Invalid ZIP file: no question files (.json, .ndjson, .jsonl, .csv) found');
+  }
+  return entries;
+};
+
+export const zipFormat: InputAdapter = {
+  format: 'zip',
+  extensions: ['.zip'],
+  contentType: 'application/zip',
+
+  // Assinatura de header local (ou ZIP vazio)
+  sniff: head => head.length >= 4 && head[0] === 0x50 && head[1] === 0x4b
+    && ((head[2] === 0x03 && head[3] === 0x04) || (head[2] === 0x05 && head[3] === 0x06)),
+
+  async *readQuestions(filePath) {
+    for (const entry of await readArchive(filePath)) {
+      const adapter = entryAdapter(entry);
+      if (adapter) yield* scanEntry(entry, adapter);
+    }
+  },
+
+  async writeQuestions(inputFilePath, outputFilePath, questions) {
+    const entries = await readArchive(inputFilePath);
+    let offset = 0;
+
+    const output: ZipEntry[] = [];
+    for (const entry of entries) {
+      const adapter = entryAdapter(entry);
+      if (!adapter) {
+        output.push(entry);
+        continue;
+      }
+
+      const count = await countQuestions(entry, adapter);
+      const text = adapter.serialize(questions.slice(offset, offset + count), entry.data.toString('utf-8'));
+      output.push({ ...entry, data: Buffer.from(text, 'utf-8') });
+      offset += count;
+    }
+
+    await fs.writeFile(outputFilePath, writeZip(output));
+  },
+};
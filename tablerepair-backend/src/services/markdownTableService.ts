@@ -0,0 +1,221 @@
+/**
+ * MARKDOWN TABLE SERVICE
+ *
+ * Conversão determinística de tabelas Markdown (GFM, com pipes) para HTML.
+ * Usada no lugar da IA para MARKDOWN_TABLE_IN_FIELD (tabelas Markdown soltas no campo)
+ * e MARKDOWN_DETECTED (tabela que é, ou embrulha, Markdown). Só o Markdown malformado
+ * vai para a IA.
+ *
+ * Além do GFM: `$...$`, `$$...$$` e `\(...\)` são atômicos (o `|` de `$|x|$` não separa
+ * células e `\|` dentro da fórmula continua sendo LaTeX). `R$ 10` não abre fórmula.
+ */
+
+export type MarkdownAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownTable {
+  headers: string[];
+  aligns: MarkdownAlign[];
+  rows: string[][];
+}
+
+// Posição de uma tabela Markdown dentro do texto do campo
+export interface MarkdownTableBlock {
+  start: number;
+  end: number;
+  markdown: string;
+}
+
+export type MarkdownParseResult =
+  | { table: MarkdownTable; error?: undefined }
+  | { table: null; error: string };
+
+const REGEX_DELIMITER_CELL = /^:?-+:?$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isPipeLine = (line: string): boolean => line.includes('|') && line.trim() !== '';
+
+// Candidata a linha separadora (validada de fato no parse, para o malformado ir para a IA)
+const isDelimiterLine = (line: string): boolean =>
+  line.includes('|') && /^[\s|:-]+$/.test(line) && /[-:]/.test(line);
+
+// Fim de uma fórmula aberta em `from`; -1 = não fecha na linha (o `$` é literal)
+const findMathEnd = (text: string, from: number, delimiter: string): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text.startsWith(delimiter, i)) {
+      // `$` de fechamento: sem espaço antes e sem dígito depois (R$ 10, US$5)
+      if (delimiter === '$' && (/\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? ''))) continue;
+      return i;
+    }
+    if (text[i] === '\\') i++;
+  }
+  return -1;
+};
+
+const splitRow = (line: string): string[] => {
+  const text = line.trim();
+  const cells: string[] = [];
+  let cell = '';
+  let endsWithPipe = false;
+
+  for (let i = text.startsWith('|') ? 1 : 0; i < text.length; i++) {
+    const ch = text[i];
+    endsWithPipe = false;
+
+    if (ch === '\\' && text[i + 1] === '|') {
+      cell += '|';
+      i++;
+      continue;
+    }
+
+    if (ch === '\\' && text[i + 1] === '(') {
+      const end = text.indexOf('\\)', i + 2);
+      if (end !== -1) {
+        cell += text.slice(i, end + 2);
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '\\') {
+      cell += text.slice(i, i + 2);
+      i++;
+      continue;
+    }
+
+    if (ch === '$') {
+      const delimiter = text.startsWith('$$', i) ? '$$' : '$';
+      const opens = delimiter === '$$' || !/\s/.test(text[i + 1] ?? ' ');
+      const end = opens ? findMathEnd(text, i + delimiter.length, delimiter) : -1;
+      if (end !== -1) {
+        cell += text.slice(i, end + delimiter.length);
+        i = end + delimiter.length - 1;
+        continue;
+      }
+    }
+
+    if (ch === '|') {
+      cells.push(cell);
+      cell = '';
+      endsWithPipe = true;
+      continue;
+    }
+
+    cell += ch;
+  }
+
+  if (!endsWithPipe) cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+const parseAlign = (cell: string): MarkdownAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const renderCell = (tag: 'th' | 'td', content: string, align: MarkdownAlign): string =>
+  `<${tag}${align ? ` style="text-align: ${align};"` : ''}>${content}</${tag}>`;
+
+// ============================================================================
+// API
+// ============================================================================
+
+// Tabelas Markdown do texto: linha com pipes + linha separadora + linhas com pipes seguintes
+export function findMarkdownTables(text: string): MarkdownTableBlock[] {
+  const lines: Array<{ text: string; offset: number }> = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ text: raw.replace(/\r$/, ''), offset });
+    offset += raw.length + 1;
+  }
+
+  const blocks: MarkdownTableBlock[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!isPipeLine(lines[i].text) || !isDelimiterLine(lines[i + 1].text)) continue;
+
+    let j = i + 2;
+    while (j < lines.length && isPipeLine(lines[j].text)) j++;
+
+    const first = lines[i];
+    const last = lines[j - 1];
+    const start = first.offset + (first.text.length - first.text.trimStart().length);
+    const end = last.offset + last.text.trimEnd().length;
+
+    blocks.push({ start, end, markdown: text.slice(start, end) });
+    i = j - 1;
+  }
+
+  return blocks;
+}
+
+export function parseMarkdownTable(markdown: string): MarkdownParseResult {
+  const lines = markdown.split('\n').map(l => l.replace(/\r$/, '')).filter(l => l.trim() !== '');
+  if (lines.length < 2) {
+    return { table: null, error: 'Missing delimiter row' };
+  }
+
+  const headers = splitRow(lines[0]);
+  const delimiters = splitRow(lines[1]);
+
+  if (!delimiters.every(cell => REGEX_DELIMITER_CELL.test(cell))) {
+    return { table: null, error: `Invalid delimiter row: ${lines[1].trim()}` };
+  }
+  if (headers.length !== delimiters.length) {
+    return { table: null, error: `Header has ${headers.length} cells, delimiter row has ${delimiters.length}` };
+  }
+
+  const rows: string[][] = [];
+  for (const [idx, line] of lines.slice(2).entries()) {
+    const cells = splitRow(line);
+    // O GFM descarta o excesso; aqui seria perda de conteúdo -> IA
+    if (cells.length > headers.length) {
+      return { table: null, error: `Row ${idx + 1} has ${cells.length} cells, header has ${headers.length}` };
+    }
+    rows.push([...cells, ...new Array(headers.length - cells.length).fill('')]);
+  }
+
+  return { table: { headers, aligns: delimiters.map(parseAlign), rows } };
+}
+
+// O conteúdo das células é mantido como está (o campo já é HTML)
+export function renderMarkdownTable({ headers, aligns, rows }: MarkdownTable): string {
+  const head = `<thead><tr>${headers.map((h, c) => renderCell('th', h, aligns[c])).join('')}</tr></thead>`;
+  const body = rows.length > 0
+    ? `<tbody>${rows.map(row => `<tr>${row.map((cell, c) => renderCell('td', cell, aligns[c])).join('')}</tr>`).join('')}</tbody>`
+    : '';
+  return `<table>${head}${body}</table>`;
+}
+
+// Markdown -> <table>; html null = malformado (error explica o motivo)
+export function convertMarkdownTable(markdown: string): { html: string | null; error?: string } {
+  const parsed = parseMarkdownTable(markdown);
+  return parsed.table ? { html: renderMarkdownTable(parsed.table) } : { html: null, error: parsed.error };
+}
+
+// Colunas pelo cabeçalho, mesmo com o resto malformado (alvo de colunas do prompt de reparo)
+export function countMarkdownColumns(markdown: string): number {
+  const header = markdown.split('\n').find(l => l.trim() !== '');
+  return header ? splitRow(header).length : 0;
+}
+
+// Troca as tabelas Markdown do texto (índice = ordem no texto original) pelo HTML reparado
+export function spliceMarkdownTables(text: string, replacements: Map<number, string>): { text: string; missing: number[] } {
+  const blocks = findMarkdownTables(text);
+  const missing = [...replacements.keys()].filter(idx => idx >= blocks.length);
+
+  let result = text;
+  for (let idx = blocks.length - 1; idx >= 0; idx--) {
+    const html = replacements.get(idx);
+    if (html === undefined) continue;
+    result = result.slice(0, blocks[idx].start) + html + result.slice(blocks[idx].end);
+  }
+
+  return { text: result, missing };
+}
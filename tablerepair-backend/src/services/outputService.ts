@@ -0,0 +1,231 @@
+/**
+ * OUTPUT SERVICE
+ *
+ * Finalização do batch: aplica os reparos nas questões originais e grava o arquivo de saída
+ * no mesmo formato do upload (JSON, NDJSON, CSV ou ZIP).
+ * Usado pelo worker (ao concluir a última task) e pela API (quando nada vai para a fila).
+ */
+
+import * as fs from 'fs/promises';
+import type { Task } from '@prisma/client';
+import { env } from '../config/env.js';
+import { db } from './dbService.js';
+import { createLogger } from '../utils/logger.js';
+import { parseHtml } from '../utils/dom.js';
+import { spliceMarkdownTables } from './markdownTableService.js';
+import { locateMarkdownTable, locateTable, topLevelTables } from './tableFingerprint.js';
+import { getInputAdapter, outputFileName } from './inputFormats/index.js';
+import { getFieldValue, setFieldValue } from '../utils/fieldPaths.js';
+import type { TableTarget } from './tableFingerprint.js';
+import type { Question } from '../utils/types.js';
+
+const log = createLogger('outputService');
+
+// Verificar se batch está completo
+export async function checkBatchCompletion(batchId: string): Promise<void> {
+  const progress = await db.getBatchProgress(batchId);
+
+  // Auditoria ainda criando tasks: a própria auditoria checa ao terminar
+  if (!progress || progress.phase === 'AUDIT') return;
+
+  const isComplete = (progress.completedTasks + progress.failedTasks) >= progress.totalTasks;
+
+  // Tudo reparado, mas aguardando revisão humana
+  if (!isComplete && progress.awaitingReview > 0 && progress.phase !== 'VALIDATION'
+    && (progress.completedTasks + progress.failedTasks + progress.awaitingReview) >= progress.totalTasks) {
+    await db.updateBatchStatus(batchId, 'PROCESSING', 'VALIDATION');
+    log.info('Batch awaiting review', { batchId, awaitingReview: progress.awaitingReview });
+    return;
+  }
+
+  if (isComplete) {
+    log.info('Batch processing complete', {
+      batchId,
+      success: progress.completedTasks,
+      failed: progress.failedTasks,
+    });
+
+    // Gerar arquivo de saída
+    await generateOutputFile(batchId);
+
+    // Atualizar status
+    await db.updateBatchStatus(batchId, 'COMPLETED', 'DONE');
+  }
+}
+
+// Gerar arquivo final (formato do upload)
+export async function generateOutputFile(batchId: string): Promise<void> {
+  try {
+    const batch = await db.getBatch(batchId);
+    if (!batch) return;
+
+    // Ler questões do arquivo original
+    const adapter = getInputAdapter(batch.inputFormat);
+    const questions: Question[] = [];
+    try {
+      for await (const question of adapter.readQuestions(batch.inputFilePath)) questions.push(question);
+    } catch (error: any) {
+      log.error('Failed to parse original file', { batchId, error: error.message });
+      return;
+    }
+
+    // Buscar tasks completadas (com revisão: somente as aprovadas)
+    const appliedStatuses = batch.requireReview ? ['APPROVED' as const] : ['COMPLETED' as const, 'APPROVED' as const];
+    const tasksMap = await db.getCompletedTasksGroupedByQuestion(batchId, appliedStatuses);
+
+    // Aplicar reparos
+    let modifiedCount = 0;
+    let conflictCount = 0;
+
+    // Alvo não encontrado (ou ambíguo): o reparo não é aplicado, para não corromper outra tabela
+    const logConflict = async (task: Task, conflict: string) => {
+      conflictCount++;
+      await db.createLog(batchId, 'WARN', 'Repair not applied: table conflict', {
+        taskId: task.id,
+        questionIndex: task.questionIndex,
+        field: task.field,
+        metadata: { conflict, tableIndex: task.tableIndex, tableSpan: task.tableSpan, issueType: task.issueType },
+      });
+    };
+
+    for (const [questionIndex, tasks] of tasksMap) {
+      const q = questions[questionIndex];
+      if (!q) continue;
+
+      // Tabelas Markdown do campo: trocadas juntas, localizadas no texto antes da troca
+      const markdownByField = new Map<string, Map<number, string>>();
+
+      // Da última tabela para a primeira: as tabelas ainda por aplicar continuam como no
+      // original (o tableIndex só desempata tabelas idênticas)
+      for (const task of [...tasks].reverse()) {
+        // task.field é o caminho do campo (ex: "alternativas[2].texto")
+        const field = task.field;
+        const originalFieldValue = getFieldValue(q, field);
+        if (!task.repairedHtml || !originalFieldValue || typeof originalFieldValue !== 'string') continue;
+
+        if (task.issueType === 'MARKDOWN_TABLE_IN_FIELD') {
+          const replacements = markdownByField.get(field) || new Map<number, string>();
+          const located = locateMarkdownTable(originalFieldValue, task);
+          const conflict = located.conflict
+            ?? (replacements.has(located.index!) ? 'Original table already replaced by another task' : undefined);
+
+          if (conflict) {
+            await logConflict(task, conflict);
+          } else {
+            replacements.set(located.index!, task.repairedHtml);
+            markdownByField.set(field, replacements);
+          }
+          continue;
+        }
+
+        // Aplicar reparo usando domReplace
+        const { html: newValue, conflict } = domReplace(
+          originalFieldValue,
+          task.repairedHtml,
+          task,
+          task.issueType === 'CONTENT_SWALLOW'
+        );
+        if (conflict) {
+          await logConflict(task, conflict);
+        } else if (newValue !== originalFieldValue) {
+          setFieldValue(q, field, newValue);
+          modifiedCount++;
+        }
+      }
+
+      for (const [field, replacements] of markdownByField) {
+        const original = getFieldValue(q, field) as string;
+        const { text, missing } = spliceMarkdownTables(original, replacements);
+        if (missing.length > 0) {
+          log.warn('Markdown table index out of bounds', { questionIndex, field, missing });
+        }
+        if (text !== original) {
+          setFieldValue(q, field, text);
+          modifiedCount++;
+        }
+      }
+    }
+
+    // Salvar arquivo de saída
+    const outputDir = env.OUTPUT_DIR;
+    const outputFilePath = `${outputDir}/${Date.now()}_${outputFileName(batch.fileName)}`;
+
+    await fs.mkdir(outputDir, { recursive: true });
+    await adapter.writeQuestions(batch.inputFilePath, outputFilePath, questions);
+
+    // Atualizar batch com caminho do arquivo
+    await db.setBatchOutputFile(batchId, outputFilePath);
+
+    log.info('Output file generated', {
+      batchId,
+      path: outputFilePath,
+      modifiedQuestions: modifiedCount,
+      conflicts: conflictCount,
+    });
+
+  } catch (error: any) {
+    log.error('Failed to generate output file', {
+      batchId,
+      error: error.message,
+    });
+  }
+}
+
+// DOM Replace function (preservada do original)
+// target = tabela(s) do reparo: localizada pela impressão digital (tableFingerprint.ts);
+// tableSpan = tabelas seguidas substituídas pelo reparo (FIELD_REPAIR / SPLIT_TABLE)
+// fragment = o reparo é tabela + blocos irmãos (CONTENT_SWALLOW), inserido por inteiro
+// conflict = alvo não encontrado ou ambíguo; o campo volta sem alteração
+export function domReplace(
+  fullHtml: string,
+  newTableHtml: string,
+  target: TableTarget,
+  fragment = false
+): { html: string; conflict?: string } {
+  try {
+    const doc = parseHtml(`<body>${fullHtml}</body>`);
+    const body = doc.querySelector('body');
+
+    if (!body) return { html: fullHtml };
+
+    // Get all top-level tables
+    const allTables = topLevelTables(body);
+
+    const located = locateTable(allTables, body, target);
+    if (located.conflict !== undefined) {
+      log.warn('Table not located', { tableIndex: target.tableIndex, tableSpan: target.tableSpan, conflict: located.conflict });
+      return { html: fullHtml, conflict: located.conflict };
+    }
+
+    const tableIndex = located.index;
+    const tableSpan = target.tableSpan ?? 1;
+    const targetTable = allTables[tableIndex];
+    // As demais tabelas da sequência somem; o reparo entra no lugar da primeira
+    const removeRest = () => allTables.slice(tableIndex + 1, tableIndex + tableSpan).forEach(t => t.remove());
+
+    if (newTableHtml.trim() === '') {
+      // Remove table (CONTENT_SWALLOW case)
+      targetTable.remove();
+      removeRest();
+    } else if (fragment) {
+      targetTable.insertAdjacentHTML('afterend', newTableHtml);
+      targetTable.remove();
+      removeRest();
+    } else {
+      // Replace table
+      const tempDiv = doc.createElement('div');
+      tempDiv.innerHTML = newTableHtml;
+      const newTable = tempDiv.querySelector('table');
+
+      if (newTable) {
+        targetTable.replaceWith(newTable);
+        removeRest();
+      }
+    }
+
+    return { html: body.innerHTML };
+  } catch (error: any) {
+    log.error('domReplace error', { error: error.message });
+    return { html: fullHtml };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Helpers compartilhados pelos provedores de IA
+ */
+
+import { toBRL } from '../../config/pricing.js';
+import type { ProviderErrorKind, ProviderPricing, TokenUsage } from '../../utils/types.js';
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly kind: ProviderErrorKind,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const classifyHttpStatus = (status: number | undefined): ProviderErrorKind => {
+  if (status === 429) return 'RATE_LIMIT';
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status === 402) return 'QUOTA';
+  if (status === undefined || status === 408 || status >= 500) return 'TRANSIENT';
+  return 'FATAL';
+};
+
+// Classificação genérica: ProviderError já vem classificado; erros de rede são transitórios
+export const classifyGenericError = (error: unknown): ProviderErrorKind => {
+  if (error instanceof ProviderError) return error.kind;
+  const status = (error as any)?.status ?? (error as any)?.response?.status;
+  if (typeof status === 'number') return classifyHttpStatus(status);
+  const message = String((error as any)?.message ?? '');
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up/i.test(message)) return 'TRANSIENT';
+  return 'FATAL';
+};
+
+export const calculateCostBRL = (usage: TokenUsage, pricing: ProviderPricing): number => {
+  const inputCost = (usage.promptTokens / 1_000_000) * pricing.inputUSDPerMillion;
+  const outputCost = (usage.completionTokens / 1_000_000) * pricing.outputUSDPerMillion;
+  return toBRL(inputCost + outputCost);
+};
+
+// Aproximação usada quando o provider não reporta uso (~4 caracteres por token)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Chamada no formato /chat/completions (OpenRouter e servidores compatíveis com OpenAI)
+export const callChatCompletions = async (
+  url: string,
+  apiKey: string | undefined,
+  body: Record<string, unknown>,
+  extraHeaders: Record<string, string> = {}
+): Promise<{ text: string; usage: TokenUsage }> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...extraHeaders,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new ProviderError(
+      classifyHttpStatus(response.status),
+      `API Error ${response.status}: ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const data: any = await response.json();
+
+  return {
+    text: data.choices?.[0]?.message?.content || '',
+    usage: {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+      totalTokens: data.usage?.total_tokens || 0,
+    },
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * Google Gemini (SDK @google/genai)
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { env } from '../../config/env.js';
+import { classifyGenericError, ProviderError } from './common.js';
+import type { RepairProvider } from '../../utils/types.js';
+
+const ai = env.GEMINI_API_KEY ? new GoogleGenAI({ apiKey: env.GEMINI_API_KEY }) : null;
+
+export const googleProvider: RepairProvider = {
+  name: 'google',
+  model: env.GOOGLE_MODEL,
+
+  isConfigured: () => ai !== null,
+
+  async generate(prompt) {
+    if (!ai) throw new ProviderError('AUTH', 'GEMINI_API_KEY not configured');
+
+    const response = await ai.models.generateContent({
+      model: env.GOOGLE_MODEL,
+      contents: prompt,
+    });
+
+    const m = response.usageMetadata;
+    return {
+      text: response.text || '',
+      model: env.GOOGLE_MODEL,
+      usage: {
+        promptTokens: m?.promptTokenCount || 0,
+        completionTokens: m?.candidatesTokenCount || 0,
+        totalTokens: m?.totalTokenCount || 0,
+      },
+    };
+  },
+
+  classifyError: classifyGenericError,
+};
@@ -0,0 +1,59 @@
+/**
+ * REGISTRO DE PROVEDORES DE IA
+ *
+ * `Batch.strategy` guarda uma cadeia ordenada de provedores ("google,openrouter").
+ * O reparo tenta o primeiro; em erro não recuperável ou reprovação na validação,
+ * avança para o próximo da cadeia.
+ */
+
+import { env } from '../../config/env.js';
+import { googleProvider } from './googleProvider.js';
+import { openRouterProvider } from './openRouterProvider.js';
+import { openAICompatibleProvider } from './openAICompatibleProvider.js';
+import { mockProvider } from './mockProvider.js';
+import type { RepairProvider } from '../../utils/types.js';
+
+export { ProviderError, calculateCostBRL, estimateTokens } from './common.js';
+
+const PROVIDERS: Record<string, RepairProvider> = {
+  [googleProvider.name]: googleProvider,
+  [openRouterProvider.name]: openRouterProvider,
+  [openAICompatibleProvider.name]: openAICompatibleProvider,
+  [mockProvider.name]: mockProvider,
+};
+
+// Estratégias antigas (antes da cadeia de provedores)
+const STRATEGY_ALIASES: Record<string, string[]> = {
+  hybrid: ['google', 'openrouter'],
+  openrouter: ['openrouter'],
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+export const getProvider = (name: string): RepairProvider | undefined => PROVIDERS[name];
+
+// Normaliza "hybrid" | "google,openrouter" | ["mock"] em lista de nomes válidos
+export const parseProviderChain = (strategy: string | string[] | null | undefined): string[] => {
+  const raw = Array.isArray(strategy) ? strategy : (strategy || env.DEFAULT_PROVIDER_CHAIN).split(',');
+
+  const names = raw
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap(s => STRATEGY_ALIASES[s] ?? [s]);
+
+  const unknown = names.filter(n => !PROVIDERS[n]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown provider(s): ${unknown.join(', ')}. Available: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return [...new Set(names)];
+};
+
+export const serializeProviderChain = (strategy: string | string[] | null | undefined): string =>
+  parseProviderChain(strategy).join(',');
+
+// Provedores da cadeia que estão configurados neste processo
+export const resolveProviderChain = (strategy: string | string[] | null | undefined): RepairProvider[] =>
+  parseProviderChain(strategy)
+    .map(name => PROVIDERS[name])
+    .filter(p => p.isConfigured());
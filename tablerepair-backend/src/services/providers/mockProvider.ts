@@ -0,0 +1,50 @@
+/**
+ * Provider mock determinístico (testes e demos offline)
+ *
+ * Procura a resposta em MOCK_FIXTURES_DIR/<sha256 da tabela>.html, onde a tabela
+ * é a primeira <table> após "BROKEN TABLE:" / "ORIGINAL TABLE:" no prompt.
+ * Sem fixture, devolve a própria tabela (eco), o que mantém o pipeline funcionando.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { env } from '../../config/env.js';
+import { classifyGenericError, estimateTokens } from './common.js';
+import type { RepairProvider } from '../../utils/types.js';
+
+const TABLE_MARKERS = /(?:BROKEN TABLE|ORIGINAL TABLE):\s*(<table[\s\S]*?<\/table>)/i;
+
+export const extractPromptTable = (prompt: string): string => {
+  const marked = prompt.match(TABLE_MARKERS);
+  if (marked) return marked[1].trim();
+  const any = prompt.match(/<table[\s\S]*?<\/table>/i);
+  return any ? any[0].trim() : '';
+};
+
+export const mockFixtureKey = (tableHtml: string): string =>
+  createHash('sha256').update(tableHtml.trim()).digest('hex');
+
+export const mockProvider: RepairProvider = {
+  name: 'mock',
+  model: 'mock-fixtures',
+
+  isConfigured: () => true,
+
+  async generate(prompt) {
+    const table = extractPromptTable(prompt);
+    const fixturePath = path.join(env.MOCK_FIXTURES_DIR, `${mockFixtureKey(table)}.html`);
+    const text = existsSync(fixturePath) ? readFileSync(fixturePath, 'utf-8') : table;
+
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(text);
+
+    return {
+      text,
+      model: 'mock-fixtures',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  },
+
+  classifyError: classifyGenericError,
+};
@@ -0,0 +1,32 @@
+/**
+ * Qualquer endpoint compatível com OpenAI /chat/completions
+ * (llama.cpp server, vLLM, Ollama, LM Studio...)
+ */
+
+import { env } from '../../config/env.js';
+import { callChatCompletions, classifyGenericError, ProviderError } from './common.js';
+import type { RepairProvider } from '../../utils/types.js';
+
+export const openAICompatibleProvider: RepairProvider = {
+  name: 'openai-compatible',
+  model: env.OPENAI_COMPAT_MODEL,
+
+  isConfigured: () => !!env.OPENAI_COMPAT_BASE_URL,
+
+  async generate(prompt) {
+    if (!env.OPENAI_COMPAT_BASE_URL) {
+      throw new ProviderError('AUTH', 'OPENAI_COMPAT_BASE_URL not configured');
+    }
+
+    const url = `${env.OPENAI_COMPAT_BASE_URL.replace(/\/+$/, '')}/chat/completions`;
+    const result = await callChatCompletions(url, env.OPENAI_COMPAT_API_KEY, {
+      model: env.OPENAI_COMPAT_MODEL,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+    });
+
+    return { ...result, model: env.OPENAI_COMPAT_MODEL };
+  },
+
+  classifyError: classifyGenericError,
+};
@@ -0,0 +1,76 @@
+/**
+ * OpenRouter (pool de chaves com rotação)
+ */
+
+import { env } from '../../config/env.js';
+import { createLogger } from '../../utils/logger.js';
+import { callChatCompletions, classifyGenericError, ProviderError } from './common.js';
+import type { RepairProvider } from '../../utils/types.js';
+
+const log = createLogger('openRouterProvider');
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const MAX_KEY_RETRIES = 3;
+
+// Chaves OpenRouter - CARREGADAS DO AMBIENTE
+// Em .env: OPENROUTER_KEYS="sk-or-v1-xxx,sk-or-v1-yyy,sk-or-v1-zzz"
+const OPENROUTER_KEYS = [
+  ...env.OPENROUTER_KEYS.split(','),
+  env.OPENROUTER_API_KEY ?? '',
+].map(k => k.trim()).filter((k, i, all) => k && all.indexOf(k) === i);
+
+// Worker Pool State
+let keyPointer = 0;
+
+const getNextKey = (): string => {
+  if (OPENROUTER_KEYS.length === 0) {
+    throw new ProviderError('AUTH', 'No OpenRouter keys configured. Set OPENROUTER_KEYS in .env');
+  }
+  const key = OPENROUTER_KEYS[keyPointer];
+  keyPointer = (keyPointer + 1) % OPENROUTER_KEYS.length;
+  return key;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const openRouterProvider: RepairProvider = {
+  name: 'openrouter',
+  model: env.OPENROUTER_MODEL,
+
+  isConfigured: () => OPENROUTER_KEYS.length > 0,
+
+  async generate(prompt) {
+    let lastError: unknown = null;
+
+    for (let keyRetries = 0; keyRetries < MAX_KEY_RETRIES; keyRetries++) {
+      const key = getNextKey();
+      try {
+        const result = await callChatCompletions(OPENROUTER_URL, key, {
+          model: env.OPENROUTER_MODEL,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: 32000,
+          reasoning: {
+            enabled: true,
+            effort: 'low',
+          },
+        }, {
+          'HTTP-Referer': 'https://tablerepair.ai',
+          'X-Title': 'TableRepair AI',
+        });
+        return { ...result, model: env.OPENROUTER_MODEL };
+      } catch (error) {
+        lastError = error;
+        const kind = classifyGenericError(error);
+        if (kind === 'AUTH' || kind === 'QUOTA') {
+          log.warn(`Key ${key.slice(0, 8)}... exhausted. Rotating.`);
+        }
+        await delay(500);
+      }
+    }
+
+    const kind = classifyGenericError(lastError);
+    throw new ProviderError(kind, `All OpenRouter keys failed: ${(lastError as any)?.message ?? 'unknown'}`);
+  },
+
+  classifyError: classifyGenericError,
+};
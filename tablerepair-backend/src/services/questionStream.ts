@@ -0,0 +1,225 @@
+/**
+ * QUESTION STREAM
+ *
+ * Leitura incremental do JSON de questões: aceita `[...]` ou `{ "questoes": [...] }`
+ * e entrega uma questão por vez, sem carregar o arquivo inteiro na memória.
+ * Cada questão é recortada do texto (contando chaves/colchetes fora de strings)
+ * e parseada isoladamente com JSON.parse. Os outros formatos de entrada (NDJSON, CSV,
+ * ZIP) ficam em ./inputFormats.
+ */
+
+import { createReadStream } from 'fs';
+import type { AuditShard, Question } from '../utils/types.js';
+
+const QUESTIONS_KEY = 'questoes';
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+// Dentro de string só interessam aspas e escapes
+const STRING_SPECIAL = /["\\]/g;
+const WHITESPACE = new Set([' ', '\t', '\n', '\r', '\uFEFF']);
+
+// Recorta os elementos do array de questões conforme os chunks chegam
+class QuestionScanner {
+  private depth = 0;
+  private rootSeen = false;
+  private rootIsObject = false;
+  private arrayDepth = -1; // profundidade dentro do array de questões (-1 = ainda não achado)
+  private arrayClosed = false;
+
+  private inString = false;
+  private escaped = false;
+  private expectKey = false; // raiz-objeto: a próxima string é uma chave
+  private keyBuf: string | null = null;
+  private lastKey: string | null = null;
+
+  private parts: string[] | null = null; // questão em leitura (pedaços de chunks anteriores)
+  private partStart = 0;
+  private isContainer = false;
+  private count = 0;
+
+  push(chunk: string): Question[] {
+    const out: Question[] = [];
+    this.partStart = 0;
+    let i = 0;
+
+    while (i < chunk.length) {
+      if (this.inString) {
+        i = this.scanString(chunk, i);
+        continue;
+      }
+
+      const c = chunk[i];
+
+      if (WHITESPACE.has(c)) {
+        i++;
+        continue;
+      }
+
+      const atElementStart = !this.arrayClosed && this.depth === this.arrayDepth && !this.parts;
+
+      switch (c) {
+        case '{':
+        case '[':
+          if (this.depth === 0) {
+            if (this.rootSeen) throw new Error('Invalid JSON file: multiple root values');
+            this.rootSeen = true;
+            if (c === '[') {
+              this.arrayDepth = 1;
+            } else {
+              this.rootIsObject = true;
+              this.expectKey = true;
+            }
+          } else if (c === '[' && this.rootIsObject && this.depth === 1
+            && this.arrayDepth === -1 && this.lastKey === QUESTIONS_KEY) {
+            this.arrayDepth = 2;
+          } else if (atElementStart) {
+            this.startElement(i, true);
+          }
+          this.depth++;
+          break;
+
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth < 0) throw new Error('Invalid JSON file: unexpected closing bracket');
+
+          if (this.parts && this.isContainer && this.depth === this.arrayDepth) {
+            out.push(this.endElement(chunk, i + 1));
+          } else if (this.parts && !this.isContainer && this.depth === this.arrayDepth - 1) {
+            out.push(this.endElement(chunk, i));
+          }
+
+          if (c === ']' && !this.arrayClosed && this.depth === this.arrayDepth - 1) {
+            this.arrayClosed = true;
+          }
+          break;
+
+        case ',':
+          if (this.parts && !this.isContainer && this.depth === this.arrayDepth) {
+            out.push(this.endElement(chunk, i));
+          }
+          if (this.rootIsObject && this.depth === 1) this.expectKey = true;
+          break;
+
+        case ':':
+          if (this.rootIsObject && this.depth === 1) this.expectKey = false;
+          break;
+
+        case '"':
+          if (this.depth === 0) throw new Error('Invalid JSON file: root must be an array or an object');
+          if (atElementStart) this.startElement(i, false);
+          if (this.rootIsObject && this.depth === 1 && this.expectKey) this.keyBuf = '';
+          this.inString = true;
+          break;
+
+        default:
+          // Números, true/false/null
+          if (this.depth === 0) throw new Error('Invalid JSON file: root must be an array or an object');
+          if (atElementStart) this.startElement(i, false);
+      }
+
+      i++;
+    }
+
+    if (this.parts) {
+      this.parts.push(chunk.slice(this.partStart));
+    }
+
+    return out;
+  }
+
+  end(): void {
+    if (!this.rootSeen || this.inString || this.depth !== 0) {
+      throw new Error('Invalid JSON file: unexpected end of input');
+    }
+  }
+
+  // Avança até o fim da string (ou do chunk); retorna o próximo índice
+  private scanString(chunk: string, from: number): number {
+    let i = from;
+
+    if (this.escaped) {
+      if (this.keyBuf !== null) this.keyBuf += chunk[i];
+      this.escaped = false;
+      return i + 1;
+    }
+
+    STRING_SPECIAL.lastIndex = i;
+    const match = STRING_SPECIAL.exec(chunk);
+    const stop = match ? match.index : chunk.length;
+
+    if (this.keyBuf !== null) this.keyBuf += chunk.slice(i, stop);
+    if (!match) return chunk.length;
+
+    i = match.index;
+    if (chunk[i] === '\\') {
+      if (this.keyBuf !== null) this.keyBuf += '\\';
+      this.escaped = true;
+      return i + 1;
+    }
+
+    this.inString = false;
+    if (this.keyBuf !== null) {
+      this.lastKey = this.keyBuf;
+      this.keyBuf = null;
+    }
+    return i + 1;
+  }
+
+  private startElement(index: number, container: boolean): void {
+    this.parts = [];
+    this.partStart = index;
+    this.isContainer = container;
+  }
+
+  private endElement(chunk: string, endIndex: number): Question {
+    const text = this.parts!.join('') + chunk.slice(this.partStart, endIndex);
+    this.parts = null;
+
+    try {
+      return JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON file: question ${this.count} (${error.message})`);
+    } finally {
+      this.count++;
+    }
+  }
+}
+
+// Questões do JSON, uma por vez, na ordem do array (chunks de texto em sequência)
+export async function* scanQuestions(chunks: AsyncIterable<string>): AsyncGenerator<Question> {
+  const scanner = new QuestionScanner();
+  for await (const chunk of chunks) {
+    yield* scanner.push(chunk);
+  }
+  scanner.end();
+}
+
+// Texto do arquivo em chunks, sem carregar o arquivo inteiro
+export async function* readTextChunks(filePath: string): AsyncGenerator<string> {
+  const stream = createReadStream(filePath, { encoding: 'utf-8', highWaterMark: READ_CHUNK_BYTES });
+  try {
+    yield* stream as AsyncIterable<string>;
+  } finally {
+    stream.destroy();
+  }
+}
+
+// Questões do arquivo JSON, uma por vez
+export const streamQuestions = (filePath: string): AsyncGenerator<Question> =>
+  scanQuestions(readTextChunks(filePath));
+
+// Questões agrupadas em shards contíguos (para o auditPool)
+export async function* streamQuestionShards(questions: AsyncIterable<Question>, shardSize: number): AsyncGenerator<AuditShard> {
+  let shard: AuditShard = { startIndex: 0, questions: [] };
+
+  for await (const question of questions) {
+    shard.questions.push(question);
+    if (shard.questions.length >= shardSize) {
+      yield shard;
+      shard = { startIndex: shard.startIndex + shard.questions.length, questions: [] };
+    }
+  }
+
+  if (shard.questions.length > 0) yield shard;
+}
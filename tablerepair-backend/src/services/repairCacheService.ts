@@ -0,0 +1,84 @@
+/**
+ * REPAIR CACHE SERVICE
+ *
+ * Cache de reparos endereçado por conteúdo (tabela RepairCache). A chave junta a versão do
+ * prompt, a cadeia de provedores do batch (nome:modelo), o tenant e o HTML normalizado da
+ * tabela original: reenviar o mesmo banco de questões não paga de novo pelas tabelas que não
+ * mudaram. A auditoria consulta o cache antes de enfileirar (hit = task concluída com
+ * provider 'cache', custo zero); o reparo entra no cache quando é aceito (worker sem
+ * revisão, aprovação ou edição do revisor) e sai quando o revisor rejeita um hit.
+ */
+
+import { createHash } from 'crypto';
+import type { Batch, Task } from '@prisma/client';
+import { db } from './dbService.js';
+import { getProvider, parseProviderChain } from './providers/index.js';
+import { REPAIR_PROMPT_VERSION } from './repairService.js';
+import { normalizeHtml } from './tableFingerprint.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('repairCacheService');
+
+export const CACHE_PROVIDER = 'cache';
+
+// Auto-fixer já é grátis; hit do cache já está no cache
+const UNCACHED_PROVIDERS = new Set(['rules', CACHE_PROVIDER]);
+
+// "google:gemini-3-flash-preview,openrouter:google/gemini-3-flash-preview"
+export const describeModelChain = (strategy: string): string =>
+  parseProviderChain(strategy).map(name => `${name}:${getProvider(name)!.model}`).join(',');
+
+export const repairCacheKey = (rawHtml: string, modelChain: string, tenantId: string | null): string =>
+  createHash('sha256')
+    .update([REPAIR_PROMPT_VERSION, modelChain, tenantId ?? '', normalizeHtml(rawHtml)].join('\n'))
+    .digest('hex');
+
+// Reparo em cache de cada tabela (mesma ordem de rawHtmls; null = miss)
+export async function findCachedRepairs(batch: Batch, rawHtmls: string[]): Promise<Array<string | null>> {
+  if (batch.bypassCache || rawHtmls.length === 0) return rawHtmls.map(() => null);
+
+  const modelChain = describeModelChain(batch.strategy);
+  const keys = rawHtmls.map(html => repairCacheKey(html, modelChain, batch.tenantId));
+  const entries = new Map((await db.getRepairCacheEntries([...new Set(keys)])).map(e => [e.key, e.repairedHtml]));
+
+  // Dry run só estima: não conta como uso da entrada
+  if (!batch.dryRun) await db.touchRepairCacheEntries([...entries.keys()]);
+
+  return keys.map(key => entries.get(key) ?? null);
+}
+
+// Cadeia que reparou a task: a do retry (Task.strategy) ou a do batch
+const taskModelChain = (batch: Batch, task: Task): string => describeModelChain(task.strategy ?? batch.strategy);
+
+// Grava um reparo aceito; falha no cache não afeta a task
+export async function storeRepair(batch: Batch, task: Task, repairedHtml: string, provider: string | null): Promise<void> {
+  if (!provider || UNCACHED_PROVIDERS.has(provider) || !repairedHtml) return;
+
+  try {
+    const modelChain = taskModelChain(batch, task);
+    await db.saveRepairCacheEntry({
+      key: repairCacheKey(task.rawHtml, modelChain, batch.tenantId),
+      tenantId: batch.tenantId,
+      promptVersion: REPAIR_PROMPT_VERSION,
+      modelChain,
+      repairedHtml,
+      provider,
+    });
+  } catch (error: any) {
+    log.warn('Failed to store repair in cache', { batchId: batch.id, taskId: task.id, error: error.message });
+  }
+}
+
+// Revisor rejeitou um reparo vindo do cache: a entrada sai para não voltar nos próximos uploads
+export async function evictCachedRepair(batch: Batch, task: Task): Promise<boolean> {
+  if (task.provider !== CACHE_PROVIDER) return false;
+
+  try {
+    const evicted = await db.deleteRepairCacheEntry(repairCacheKey(task.rawHtml, taskModelChain(batch, task), batch.tenantId));
+    if (evicted) log.info('Rejected repair evicted from cache', { batchId: batch.id, taskId: task.id });
+    return evicted;
+  } catch (error: any) {
+    log.warn('Failed to evict repair from cache', { batchId: batch.id, taskId: task.id, error: error.message });
+    return false;
+  }
+}
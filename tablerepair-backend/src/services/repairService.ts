@@ -3,65 +3,45 @@
  *
  * IMPORTANTE: Este arquivo preserva 100% da lógica original.
  * Mudanças:
- * - DOMParser → jsdom
+ * - DOMParser → parser HTML interno (utils/dom.ts)
  * - Chaves OpenRouter → variáveis de ambiente
  * - console.log → logger
+ * - Google/OpenRouter inline → provedores plugáveis (./providers), cadeia vinda de Batch.strategy
  *
  * NÃO ALTERAR a lógica de reparo sem aprovação explícita!
  */
 
-import { JSDOM } from 'jsdom';
-import { GoogleGenAI } from "@google/genai";
 import { createLogger } from '../utils/logger.js';
-import { env } from '../config/env.js';
-import type { RepairResult, TokenUsage, RepairContext, RepairAttempt } from '../utils/types.js';
+import { decodeHtmlEntities, decodeLooseEntities, parseHtml } from '../utils/dom.js';
+import type { HtmlElement } from '../utils/dom.js';
+import { analyzeTable, buildGrid, getHeaderAndBodyRows } from './auditService.js';
+import { compileAuditRules } from './auditRules.js';
+import { countMarkdownColumns } from './markdownTableService.js';
+import type { CompiledAuditRules } from './auditRules.js';
+import { resolveProviderChain, calculateCostBRL, estimateTokens } from './providers/index.js';
+import { getPricing } from '../config/pricing.js';
+import type { AuditRules, Issue, RepairResult, TokenUsage, RepairContext, RepairAttempt, RepairProvider } from '../utils/types.js';
 
 const log = createLogger('repairService');
 
 // ============================================================================
-// CONFIGURAÇÃO (movido de hardcoded para env)
+// CONFIGURAÇÃO
 // ============================================================================
 
-// Google Gemini
-const ai = env.GEMINI_API_KEY ? new GoogleGenAI({ apiKey: env.GEMINI_API_KEY }) : null;
-const REPAIR_MODEL_GOOGLE = 'gemini-3-flash-preview';
-const MAX_RETRIES_GOOGLE = 1;
-
-// OpenRouter
-const REPAIR_MODEL_OPENROUTER = "google/gemini-3-flash-preview";
+// Provedores (Google, OpenRouter, OpenAI-compatível, mock) ficam em ./providers
 const MAX_VERIFICATION_ATTEMPTS = 3;
 
-// Chaves OpenRouter - CARREGADAS DO AMBIENTE
-// Em .env: OPENROUTER_KEYS="sk-or-v1-xxx,sk-or-v1-yyy,sk-or-v1-zzz"
-const OPENROUTER_KEYS = (process.env.OPENROUTER_KEYS || '').split(',').filter(k => k.trim());
-
-// Worker Pool State
-let keyPointer = 0;
-
-const getNextKey = (): string => {
-  if (OPENROUTER_KEYS.length === 0) {
-    throw new Error('No OpenRouter keys configured. Set OPENROUTER_KEYS in .env');
-  }
-  const key = OPENROUTER_KEYS[keyPointer];
-  keyPointer = (keyPointer + 1) % OPENROUTER_KEYS.length;
-  return key;
-};
+// Versão dos prompts e da validação do reparo: entra na chave do RepairCache.
+// Incrementar ao mudar buildRepairPrompt/buildRetryPrompt/verifyRepairedTable
+export const REPAIR_PROMPT_VERSION = '1';
 
-// Pricing Constants
-const PRICE_INPUT_USD = 0.10;
-const PRICE_OUTPUT_USD = 0.40;
-const USD_TO_BRL = 6.00;
+// Resposta esperada ~ tamanho da tabela original (estimativas de custo)
+const COMPLETION_TO_TABLE_RATIO = 1.2;
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const calculateCost = (usage: TokenUsage): number => {
-  const inputCost = (usage.promptTokens / 1_000_000) * PRICE_INPUT_USD;
-  const outputCost = (usage.completionTokens / 1_000_000) * PRICE_OUTPUT_USD;
-  return (inputCost + outputCost) * USD_TO_BRL;
-};
-
 // ============================================================================
-// HELPERS (adaptados para jsdom)
+// HELPERS (adaptados para Node.js)
 // ============================================================================
 
 const cleanHeaderText = (text: string): string => {
@@ -132,11 +112,10 @@ const areHeadersBroken = (headers: string[]): { broken: boolean; reason: string
   return { broken: false, reason: '' };
 };
 
-// ADAPTADO: jsdom em vez de DOMParser
+// ADAPTADO: parseHtml em vez de DOMParser
 const countRealColumns = (html: string): number => {
   try {
-    const dom = new JSDOM(html);
-    const doc = dom.window.document;
+    const doc = parseHtml(html);
     const table = doc.querySelector('table');
     if (!table) return 0;
 
@@ -144,8 +123,8 @@ const countRealColumns = (html: string): number => {
     if (allRows.length === 0) return 0;
 
     const thead = table.querySelector('thead');
-    let headerRow: Element | null = null;
-    let bodyRows: Element[] = [];
+    let headerRow: HtmlElement | null = null;
+    let bodyRows: HtmlElement[] = [];
 
     if (thead) {
       headerRow = thead.querySelector('tr');
@@ -196,8 +175,7 @@ const analyzeTableStructure = (html: string): {
   genericHeaders: string[];
 } => {
   try {
-    const dom = new JSDOM(html);
-    const doc = dom.window.document;
+    const doc = parseHtml(html);
     const table = doc.querySelector('table');
     if (!table) return { headerCols: 0, realCols: 0, ghostCols: 0, hasGhostColumns: false, genericHeaders: [] };
 
@@ -231,8 +209,7 @@ const analyzeTableStructure = (html: string): {
 
 const extractHeaders = (html: string): string[] => {
   try {
-    const dom = new JSDOM(html);
-    const doc = dom.window.document;
+    const doc = parseHtml(html);
     const table = doc.querySelector('table');
     if (!table) return [];
 
@@ -247,7 +224,75 @@ const extractHeaders = (html: string): string[] => {
   }
 };
 
-const verifyRepairedTable = (html: string, originalHtml: string, issueId: string, context: RepairContext): { valid: boolean; errors: string[] } => {
+// ============================================================================
+// VALIDAÇÃO PÓS-REPARO
+// ============================================================================
+
+// Markup que virou texto ("<span style=...>" escapado): HEADER_BROKEN_STYLE / BROKEN_STYLE_VALUE o removem
+const REGEX_ESCAPED_TAG = /<\/?[a-zA-Z][^<>]*>/g;
+// Células só com delimitadores (chave solta, "-", "|"...): o reparo pode tirá-las
+const REGEX_MARKUP_ONLY = /^[-–—|.{}]*$/;
+const MAX_REPORTED_MISSING = 10;
+
+// Texto comparável de uma célula: entidades decodificadas (BROKEN_ENTITY), sem markup escapado,
+// sem "$" (LATEX_BROKEN acrescenta delimitadores) e sem espaços (inclusive nbsp/zero-width)
+const normalizeCellText = (text: string): string =>
+  decodeLooseEntities(decodeHtmlEntities(text.replace(REGEX_ESCAPED_TAG, '').replace(/</g, '&lt;')))
+    .replace(/[\s\u00A0\u200B$]+/g, '');
+
+// Texto de cada célula, na ordem do documento (na original, cabeçalhos genéricos/placeholder podem ser removidos)
+const collectCellTexts = (table: HtmlElement, skipPlaceholderHeaders: boolean): string[] => {
+  const { headerRow } = getHeaderAndBodyRows(table);
+  const headerCells = new Set(headerRow && skipPlaceholderHeaders ? Array.from(headerRow.querySelectorAll('th, td')) : []);
+
+  return table.querySelectorAll('th, td').flatMap(cell => {
+    const text = cell.textContent ?? '';
+    if (headerCells.has(cell) && (isGenericHeader(text) || isPlaceholderHeaderPattern(text))) return [];
+    const normalized = normalizeCellText(text);
+    return REGEX_MARKUP_ONLY.test(normalized) ? [] : [normalized];
+  });
+};
+
+// Células da original que não aparecem, na mesma ordem, no texto do reparo. Comparar o texto
+// corrido aceita células divididas/juntadas (SPLIT_HEADER, SPLIT_CELL); a ordem impede que
+// um valor perdido "sobreviva" dentro de outro ("1" dentro de "12")
+const findMissingContent = (originalCells: string[], repairedCells: string[]): string[] => {
+  const repairedText = repairedCells.join('');
+  const missing: string[] = [];
+  let position = 0;
+
+  for (const text of originalCells) {
+    const found = repairedText.indexOf(text, position);
+    if (found === -1) missing.push(text);
+    else position = found + text.length;
+  }
+
+  return missing;
+};
+
+// Issues BAD da tabela agrupadas por tipo
+const groupBadIssues = (html: string, context: Parameters<typeof analyzeTable>[1], auditRules: CompiledAuditRules): Map<string, Issue[]> => {
+  const byType = new Map<string, Issue[]>();
+  for (const issue of analyzeTable(html, context, auditRules)) {
+    if (issue.severity === 'BAD') byType.set(issue.type, [...(byType.get(issue.type) ?? []), issue]);
+  }
+  return byType;
+};
+
+const listMissing = (kind: string, missing: string[]): string => {
+  const shown = missing.slice(0, MAX_REPORTED_MISSING).map(m => `"${m}"`).join(', ');
+  const more = missing.length > MAX_REPORTED_MISSING ? ` (+${missing.length - MAX_REPORTED_MISSING} more)` : '';
+  return `Missing ${kind} from original: ${shown}${more}`;
+};
+
+const verifyRepairedTable = (
+  html: string,
+  originalHtml: string,
+  issueId: string,
+  context: RepairContext,
+  targetCols: number,
+  auditRules: CompiledAuditRules
+): { valid: boolean; errors: string[] } => {
   const errors: string[] = [];
 
   const hasTable = /<table[\s\S]*<\/table>/i.test(html);
@@ -262,41 +307,52 @@ const verifyRepairedTable = (html: string, originalHtml: string, issueId: string
     return { valid: false, errors };
   }
 
-  log.debug(`Table accepted (has <table> and <tr>)`);
-  return { valid: true, errors: [] };
-};
+  const repairedTable = parseHtml(html).querySelector('table');
+  const originalTable = parseHtml(originalHtml).querySelector('table');
+  if (!repairedTable) {
+    errors.push('Output <table> could not be parsed');
+    return { valid: false, errors };
+  }
 
-// ============================================================================
-// API CALLERS
-// ============================================================================
+  // 1) Consistência de colunas
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(repairedTable);
+  const grid = buildGrid(headerRow, bodyRows);
 
-const callOpenRouter = async (prompt: string, apiKey: string) => {
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      "HTTP-Referer": "https://tablerepair.ai",
-      "X-Title": "TableRepair AI"
-    },
-    body: JSON.stringify({
-      model: REPAIR_MODEL_OPENROUTER,
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 32000,
-      reasoning: {
-        enabled: true,
-        effort: "low"
-      }
-    })
-  });
+  if (targetCols > 1 && grid.expectedCols < targetCols) {
+    errors.push(`Table has ${grid.expectedCols} columns, expected at least ${targetCols}`);
+  }
 
-  if (!response.ok) {
-    if (response.status === 402 || response.status === 401) {
-      throw new Error(`KEY_EXHAUSTED`);
-    }
-    throw new Error(`OpenRouter API Error: ${response.statusText}`);
+  const badRows = grid.rowWidths
+    .map((w, i) => ({ w, row: i + 1 }))
+    .filter(r => r.w !== grid.expectedCols);
+  if (badRows.length > 0) {
+    errors.push(`Inconsistent row widths (expected ${grid.expectedCols}): ${badRows.slice(0, MAX_REPORTED_MISSING).map(r => `row ${r.row} has ${r.w}`).join(', ')}`);
+  }
+
+  // 2) Re-auditoria (com as regras do batch): nenhuma issue BAD nova
+  const auditContext = { qid: context.qid, questionIndex: -1, field: context.field, tableIndex: 0, fullText: '' };
+  // Compara a quantidade por tipo: uma segunda ocorrência de um tipo já presente também é nova
+  const originalBad = groupBadIssues(originalHtml, auditContext, auditRules);
+  const introduced = [...groupBadIssues(html, auditContext, auditRules)]
+    .filter(([type, issues]) => issues.length > (originalBad.get(type)?.length ?? 0))
+    .flatMap(([, issues]) => issues);
+  if (introduced.length > 0) {
+    errors.push(`Repair introduced new problems: ${[...new Set(introduced.map(i => i.title))].slice(0, MAX_REPORTED_MISSING).join('; ')}`);
   }
-  return await response.json();
+
+  // 3) Preservação de conteúdo: o texto de toda célula do original deve sobreviver
+  if (originalTable) {
+    const missing = findMissingContent(collectCellTexts(originalTable, true), collectCellTexts(repairedTable, false));
+    if (missing.length > 0) errors.push(listMissing('text', missing));
+  }
+
+  if (errors.length > 0) {
+    log.debug(`[Issue ${issueId}] Table rejected`, { errors });
+    return { valid: false, errors };
+  }
+
+  log.debug(`[Issue ${issueId}] Table accepted`);
+  return { valid: true, errors: [] };
 };
 
 // ============================================================================
@@ -308,10 +364,12 @@ export const repairTableWithGemini = async (
   brokenHtml: string,
   expectedCols: number,
   context: RepairContext,
-  strategy: 'hybrid' | 'openrouter'
+  strategy: string | string[],
+  auditRules?: AuditRules | null
 ): Promise<RepairResult> => {
 
   const structure = analyzeTableStructure(brokenHtml);
+  const compiledRules = compileAuditRules(auditRules);
 
   let targetCols = structure.realCols;
   if (targetCols <= 1 && expectedCols > 1) {
@@ -324,62 +382,63 @@ export const repairTableWithGemini = async (
 
   let attempts = 0;
   let historyUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
-  let providerUsed: 'google' | 'openrouter' = 'google';
+  let historyCostBRL = 0;
 
-  if (strategy === 'openrouter') {
-    providerUsed = 'openrouter';
+  let providers: RepairProvider[];
+  try {
+    providers = resolveProviderChain(strategy);
+  } catch (error: any) {
+    return { issueId, originalHtml: brokenHtml, repairedHtml: '', success: false, error: error.message };
   }
 
+  if (providers.length === 0) {
+    return {
+      issueId,
+      originalHtml: brokenHtml,
+      repairedHtml: '',
+      success: false,
+      error: `No configured provider in chain "${Array.isArray(strategy) ? strategy.join(',') : strategy}"`
+    };
+  }
+
+  let providerIndex = 0;
+  let transientRetried = false;
+  let provider = providers[providerIndex];
+
+  const nextProvider = (): boolean => {
+    if (providerIndex >= providers.length - 1) return false;
+    providerIndex++;
+    provider = providers[providerIndex];
+    transientRetried = false;
+    return true;
+  };
+
   while (attempts < MAX_VERIFICATION_ATTEMPTS) {
     let repairedHtml = "";
     let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let model = provider.model;
 
     try {
-      if (strategy === 'hybrid' && ai && attempts === 0 && providerUsed === 'google') {
-        try {
-          const response = await ai.models.generateContent({
-            model: REPAIR_MODEL_GOOGLE,
-            contents: currentPrompt,
-          });
-          repairedHtml = response.text || '';
-          const m = response.usageMetadata;
-          usage = {
-            promptTokens: m?.promptTokenCount || 0,
-            completionTokens: m?.candidatesTokenCount || 0,
-            totalTokens: m?.totalTokenCount || 0
-          };
-        } catch (gErr: any) {
-          log.warn("Google API failed, switching to OpenRouter pool.");
-          providerUsed = 'openrouter';
+      try {
+        const response = await provider.generate(currentPrompt);
+        repairedHtml = response.text;
+        usage = response.usage;
+        model = response.model;
+      } catch (pErr: any) {
+        const kind = provider.classifyError(pErr);
+
+        // Rate limit / erro transitório: uma nova tentativa no mesmo provider
+        if ((kind === 'RATE_LIMIT' || kind === 'TRANSIENT') && !transientRetried) {
+          transientRetried = true;
+          log.warn(`Provider ${provider.name} failed (${kind}), retrying.`, { error: pErr.message });
+          await delay(kind === 'RATE_LIMIT' ? 2000 : 500);
+          continue;
         }
-      }
 
-      if (providerUsed === 'openrouter' || !ai || attempts > 0) {
-        providerUsed = 'openrouter';
-
-        let keySuccess = false;
-        let keyRetries = 0;
-
-        while (!keySuccess && keyRetries < 3) {
-          const key = getNextKey();
-          try {
-            const data = await callOpenRouter(currentPrompt, key);
-            repairedHtml = data.choices?.[0]?.message?.content || "";
-            usage = {
-              promptTokens: data.usage?.prompt_tokens || 0,
-              completionTokens: data.usage?.completion_tokens || 0,
-              totalTokens: data.usage?.total_tokens || 0
-            };
-            keySuccess = true;
-          } catch (kErr: any) {
-            if (kErr.message === 'KEY_EXHAUSTED') {
-              log.warn(`Key ${key.slice(0, 8)}... exhausted. Rotating.`);
-            }
-            keyRetries++;
-            await delay(500);
-          }
-        }
-        if (!keySuccess) throw new Error("All OpenRouter keys failed.");
+        const failed = provider.name;
+        if (!nextProvider()) throw pErr;
+        log.warn(`Provider ${failed} failed (${kind}), switching to ${provider.name}.`, { error: pErr.message });
+        continue;
       }
 
       // Cleanup output
@@ -394,12 +453,13 @@ export const repairTableWithGemini = async (
       historyUsage.promptTokens += usage.promptTokens;
       historyUsage.completionTokens += usage.completionTokens;
       historyUsage.totalTokens += usage.totalTokens;
+      historyCostBRL += calculateCostBRL(usage, getPricing(provider.name, model));
 
-      const validation = verifyRepairedTable(repairedHtml, brokenHtml, issueId, context);
+      const validation = verifyRepairedTable(repairedHtml, brokenHtml, issueId, context, targetCols, compiledRules);
 
       attemptLogs.push({
         attemptNumber: attempts + 1,
-        provider: providerUsed,
+        provider: provider.name,
         prompt: currentPrompt,
         rawResponse: repairedHtml,
         cleanedHtml: repairedHtml,
@@ -413,9 +473,9 @@ export const repairTableWithGemini = async (
           originalHtml: brokenHtml,
           repairedHtml,
           success: true,
-          provider: providerUsed,
+          provider: provider.name,
           usage: historyUsage,
-          costBRL: providerUsed === 'openrouter' ? calculateCost(historyUsage) : 0,
+          costBRL: historyCostBRL,
           log: {
             issueId,
             qid: context.qid,
@@ -423,7 +483,7 @@ export const repairTableWithGemini = async (
             timestamp: new Date().toISOString(),
             attempts: attemptLogs,
             finalResult: 'success',
-            totalCostBRL: providerUsed === 'openrouter' ? calculateCost(historyUsage) : 0
+            totalCostBRL: historyCostBRL
           }
         };
       } else {
@@ -432,6 +492,8 @@ export const repairTableWithGemini = async (
 
         if (attempts < MAX_VERIFICATION_ATTEMPTS) {
           currentPrompt = buildRetryPrompt(repairedHtml, validation.errors, structure, targetCols, brokenHtml);
+          // Reprovado: escala para o próximo provider da cadeia (se houver)
+          nextProvider();
         }
       }
 
@@ -442,7 +504,9 @@ export const repairTableWithGemini = async (
         originalHtml: brokenHtml,
         repairedHtml: '',
         success: false,
-        error: error.message
+        error: error.message,
+        usage: historyUsage,
+        costBRL: historyCostBRL
       };
     }
   }
@@ -452,7 +516,9 @@ export const repairTableWithGemini = async (
     originalHtml: brokenHtml,
     repairedHtml: '',
     success: false,
-    error: "Validation failed after 3 attempts.",
+    error: `Validation failed after ${MAX_VERIFICATION_ATTEMPTS} attempts: ${attemptLogs[attemptLogs.length - 1]?.validationErrors.join('; ') || 'unknown'}`,
+    usage: historyUsage,
+    costBRL: historyCostBRL,
     log: {
       issueId,
       qid: context.qid,
@@ -460,7 +526,7 @@ export const repairTableWithGemini = async (
       timestamp: new Date().toISOString(),
       attempts: attemptLogs,
       finalResult: 'failed',
-      totalCostBRL: providerUsed === 'openrouter' ? calculateCost(historyUsage) : 0
+      totalCostBRL: historyCostBRL
     }
   };
 };
@@ -530,6 +596,15 @@ ${genericHeadersList}
    - Fix alignment issues.`;
   }
 
+  const reviewerFeedback = context.reviewerNote
+    ? `
+--- REVIEWER FEEDBACK (a previous repair was REJECTED by a human editor) ---
+${context.reviewerNote}
+Follow this feedback strictly.
+---------------------------------------------------------
+`
+    : '';
+
   return `
 ROLE: You are an **Educational Content Structuring Expert** specializing in creating high-quality study materials for Brazilian public exam preparation.
 
@@ -542,6 +617,7 @@ ${(context.texto_associado || '').substring(0, 2000)}
 ${(context.enunciado || '').substring(0, 1000)}
 ---------------------------------------------------------
 
+${reviewerFeedback}
 INSTRUCTIONS:
 ${structuralInstruction}
 
@@ -592,10 +668,10 @@ OUTPUT: Return the FIXED <table> HTML. No markdown.
 
 export const countExpectedCols = (html: string): number => {
   try {
-    const dom = new JSDOM(html);
-    const doc = dom.window.document;
+    const doc = parseHtml(html);
     const table = doc.querySelector('table');
-    if (!table) return 0;
+    // Markdown (MARKDOWN_TABLE_IN_FIELD malformado): colunas do cabeçalho
+    if (!table) return html.trim().startsWith('|') ? countMarkdownColumns(html) : 0;
 
     let max = 0;
     table.querySelectorAll('tr').forEach(tr => {
@@ -607,3 +683,22 @@ export const countExpectedCols = (html: string): number => {
     return 0;
   }
 };
+
+// Tokens estimados de um reparo (primeira tentativa), a partir do mesmo prompt que repairTableWithGemini envia
+export const estimateRepairUsage = (
+  brokenHtml: string,
+  expectedCols: number,
+  context: RepairContext
+): TokenUsage => {
+  const structure = analyzeTableStructure(brokenHtml);
+
+  let targetCols = structure.realCols;
+  if (targetCols <= 1 && expectedCols > 1) {
+    targetCols = expectedCols;
+  }
+
+  const promptTokens = estimateTokens(buildRepairPrompt(brokenHtml, structure, targetCols, context));
+  const completionTokens = Math.ceil(estimateTokens(brokenHtml) * COMPLETION_TO_TABLE_RATIO);
+
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
@@ -0,0 +1,425 @@
+/**
+ * RULE REPAIR SERVICE (auto-fixer)
+ *
+ * Reparos determinísticos aplicados ANTES de qualquer chamada de IA.
+ * Usa o mesmo modelo de grid do auditor (buildGrid) para transformar o DOM.
+ * Se a re-auditoria não encontrar mais problemas, a task é concluída localmente
+ * (provider = 'rules', custo zero) e não vai para a fila.
+ */
+
+import { decodeLooseEntities, parseHtml } from '../utils/dom.js';
+import type { HtmlElement } from '../utils/dom.js';
+import { analyzeTable, buildGrid, cellHasContent, getHeaderAndBodyRows } from './auditService.js';
+import type { GridCell } from './auditService.js';
+import { convertMarkdownTable, findMarkdownTables } from './markdownTableService.js';
+import { DEFAULT_AUDIT_RULES } from './auditRules.js';
+import type { CompiledAuditRules } from './auditRules.js';
+import type { Issue } from '../utils/types.js';
+
+// Tipos de issue que o auto-fixer sabe (ao menos parcialmente) resolver
+export const RULE_FIXABLE_TYPES = new Set([
+  'GHOST_COLUMN',
+  'GHOST_COLUMNS',
+  'HEADER_EMPTY',
+  'MISSING_HEADER_TEXT',
+  'BROKEN_ENTITY',
+  'INVALID_ROWSPAN',
+  'CELL_HOLE',
+  'MARKDOWN_DETECTED',
+]);
+
+export interface RuleFixResult {
+  html: string;
+  changed: boolean;
+  applied: string[];
+}
+
+// Resultado do auto-fixer já re-auditado (o que o ingest usa para decidir entre regras e IA)
+export interface AutoFixResult extends RuleFixResult {
+  remaining: Issue[];
+  error?: string; // Markdown malformado: motivo de ir para a IA
+  moved?: string[]; // CONTENT_SWALLOW: trechos tirados de dentro da tabela
+  tableIssues?: string[]; // CONTENT_SWALLOW: issues da tabela que ficou (não auditadas antes)
+}
+
+const REGEX_PLACEHOLDER_HEADER = /^[\s|—–-]*$/;
+const REGEX_GENERIC_HEADER = /^\s*(col(una|umn)?|header)\s*\d+\s*$/i;
+const MOVED_SUMMARY_LENGTH = 80;
+
+// Limite de iterações por regra (cada iteração corrige uma coluna/célula)
+const MAX_PASSES = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const getColspan = (el: HtmlElement): number => {
+  const n = parseInt(el.getAttribute('colspan') ?? '', 10);
+  return Number.isFinite(n) && n > 1 ? n : 1;
+};
+
+const setSpan = (el: HtmlElement, attr: 'colspan' | 'rowspan', value: number): void => {
+  if (value <= 1) el.removeAttribute(attr);
+  else el.setAttribute(attr, String(value));
+};
+
+const isEmptyHeader = (el: HtmlElement): boolean =>
+  !cellHasContent(el) || REGEX_PLACEHOLDER_HEADER.test(el.textContent ?? '');
+
+// Colunas fantasmas costumam vir com cabeçalho "Coluna N"
+const isRemovableHeader = (el: HtmlElement): boolean =>
+  isEmptyHeader(el) || REGEX_GENERIC_HEADER.test(el.textContent ?? '');
+
+const findCovering = (cells: GridCell[], col: number): GridCell | undefined =>
+  cells.find(c => col >= c.col && col < c.col + c.colspan);
+
+type AuditContext = { qid: string | number; questionIndex: number; field: string; tableIndex: number; fullText: string };
+
+const computeGrid = (table: HtmlElement) => {
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+  return { headerRow, bodyRows, grid: buildGrid(headerRow, bodyRows) };
+};
+
+// ============================================================================
+// REGRAS
+// ============================================================================
+
+// BROKEN_ENTITY: "&hellip" / "&#8230" sem ponto-e-vírgula dentro do texto das células
+const fixLooseEntities = (table: HtmlElement, applied: string[]): void => {
+  let fixed = 0;
+
+  for (const node of table.textNodes()) {
+    const text = node.nodeValue;
+    if (!text.includes('&')) continue;
+
+    const replaced = decodeLooseEntities(text);
+
+    if (replaced !== text) {
+      node.nodeValue = replaced;
+      fixed++;
+    }
+  }
+
+  if (fixed > 0) applied.push(`BROKEN_ENTITY: ${fixed} text node(s) decoded`);
+};
+
+// INVALID_ROWSPAN: rowspan maior que as linhas restantes da tabela
+const clampRowspans = (table: HtmlElement, applied: string[]): void => {
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+  const rows = headerRow ? [headerRow, ...bodyRows] : bodyRows;
+
+  rows.forEach((tr, rIdx) => {
+    const allowed = rows.length - rIdx;
+    Array.from(tr.querySelectorAll(':scope > td, :scope > th')).forEach(cell => {
+      const rs = parseInt(cell.getAttribute('rowspan') ?? '', 10);
+      if (Number.isFinite(rs) && rs > allowed) {
+        setSpan(cell, 'rowspan', allowed);
+        applied.push(`INVALID_ROWSPAN: rowspan ${rs} -> ${allowed} (row ${rIdx + 1})`);
+      }
+    });
+  });
+};
+
+// CELL_HOLE: rowspan indevido empurra a linha seguinte para fora da largura esperada
+const fixSpuriousRowspans = (table: HtmlElement, applied: string[]): void => {
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const { grid } = computeGrid(table);
+    const expected = grid.expectedCols;
+    if (expected === 0) return;
+
+    let fixedOne = false;
+
+    for (let r = 0; r < grid.rowWidths.length && !fixedOne; r++) {
+      if (grid.rowWidths[r] <= expected) continue;
+
+      // A linha precisa estar completa sem o rowspan de cima
+      const ownWidth = grid.bodyCells
+        .filter(c => c.row === r)
+        .reduce((acc, c) => acc + c.colspan, 0);
+      if (ownWidth !== expected) continue;
+
+      const spanning = grid.bodyCells.find(c => c.row < r && c.row + c.rowspan > r);
+      if (!spanning) continue;
+
+      const newRowspan = r - spanning.row;
+      setSpan(spanning.el, 'rowspan', newRowspan);
+      applied.push(`CELL_HOLE: rowspan ${spanning.rowspan} -> ${newRowspan} at R${spanning.row + 1}:C${spanning.col + 1}`);
+      fixedOne = true;
+    }
+
+    if (!fixedOne) return;
+  }
+};
+
+// GHOST_COLUMN(S) / MISSING_HEADER_TEXT: colunas do fim da tabela sem conteúdo no corpo e
+// sem texto no cabeçalho. Coluna vazia no meio pode ser dado faltando (fica para a IA)
+const removeEmptyColumns = (table: HtmlElement, applied: string[]): void => {
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const { bodyRows, grid } = computeGrid(table);
+    if (bodyRows.length === 0 || grid.expectedCols <= 1) return;
+
+    const target = grid.expectedCols - 1;
+    if (grid.colHasContent[target]) return;
+    const header = findCovering(grid.headerCells, target);
+    if (header && !isRemovableHeader(header.el)) return;
+
+    for (const cell of [...grid.headerCells, ...grid.bodyCells]) {
+      if (target < cell.col || target >= cell.col + cell.colspan) continue;
+      if (cell.colspan > 1) setSpan(cell.el, 'colspan', cell.colspan - 1);
+      else cell.el.remove();
+    }
+
+    applied.push(`GHOST_COLUMN: removed empty column ${target + 1}`);
+  }
+};
+
+// HEADER_EMPTY: cabeçalho vazio sobre coluna com dados -> colspan no cabeçalho anterior.
+// Sobre coluna vazia não junta: é coluna fantasma (ou dado faltando) e fica para as outras regras
+const mergeEmptyHeaders = (table: HtmlElement, applied: string[]): void => {
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const { headerRow, bodyRows, grid } = computeGrid(table);
+    if (!headerRow || bodyRows.length === 0) return;
+
+    // Só as células da própria linha (não as de tabelas aninhadas no cabeçalho)
+    const headerCells = Array.from(headerRow.querySelectorAll(':scope > th, :scope > td'));
+    const starts: number[] = [];
+    let col = 0;
+    for (const el of headerCells) {
+      starts.push(col);
+      col += getColspan(el);
+    }
+
+    const hasData = (i: number): boolean =>
+      grid.colHasContent.slice(starts[i], starts[i] + getColspan(headerCells[i])).some(Boolean);
+
+    const idx = headerCells.findIndex((el, i) =>
+      i > 0 && isEmptyHeader(el) && !isEmptyHeader(headerCells[i - 1]) && hasData(i)
+    );
+
+    if (idx === -1) return;
+
+    const previous = headerCells[idx - 1];
+    const empty = headerCells[idx];
+    setSpan(previous, 'colspan', getColspan(previous) + getColspan(empty));
+    empty.remove();
+
+    applied.push(`HEADER_EMPTY: merged empty header (col ${idx + 1}) into "${(previous.textContent ?? '').trim()}"`);
+  }
+};
+
+// MARKDOWN_DETECTED: a "tabela" é Markdown puro ou uma célula única embrulhando Markdown
+const convertMarkdown = (tableHtml: string, table: HtmlElement | null): RuleFixResult | null => {
+  let markdown: string | null = null;
+
+  if (!table && tableHtml.trim().startsWith('|')) {
+    markdown = tableHtml.trim();
+  } else if (table) {
+    const cells = table.querySelectorAll('td, th');
+    const content = cells.length === 1 ? cells[0].innerHTML.trim() : '';
+    const blocks = findMarkdownTables(content);
+    if (blocks.length === 1 && blocks[0].markdown === content) markdown = content;
+  }
+
+  if (!markdown) return null;
+
+  const { html } = convertMarkdownTable(markdown);
+  if (!html) return null;
+
+  return { html, changed: true, applied: ['MARKDOWN_DETECTED: converted Markdown table to HTML'] };
+};
+
+// CONTENT_SWALLOW: blocos de layout (mnemonica-box, "Armadilha #n", "Estratégia #n"...) que
+// foram parar dentro das células. Cada bloco sai da tabela, na ordem do documento; linhas que
+// ficam vazias são removidas. Retorna os blocos extraídos (HTML)
+const extractLayoutBlocks = (table: HtmlElement, rules: CompiledAuditRules): string[] => {
+  const blocks: string[] = [];
+  const isLayout = (markup: string): boolean => rules.contentSwallow.test(markup);
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+
+  for (const row of headerRow ? [headerRow, ...bodyRows] : bodyRows) {
+    const before = blocks.length;
+    const cells = row.querySelectorAll(':scope > td, :scope > th');
+
+    for (const cell of cells) {
+      for (const child of cell.children) {
+        if (isLayout(child.outerHTML)) {
+          blocks.push(child.outerHTML);
+          child.remove();
+        }
+      }
+
+      // Marcador solto no texto da célula: a célula inteira é o bloco
+      if (isLayout(cell.innerHTML)) {
+        blocks.push(`<p>${cell.innerHTML.trim()}</p>`);
+        cell.innerHTML = '';
+      }
+    }
+
+    if (blocks.length > before && !cells.some(cellHasContent)) row.remove();
+  }
+
+  return blocks;
+};
+
+const summarizeBlock = (html: string): string => {
+  const text = (parseHtml(html).querySelector('body')?.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return text.length > MOVED_SUMMARY_LENGTH ? `${text.slice(0, MOVED_SUMMARY_LENGTH)}...` : text;
+};
+
+// ============================================================================
+// API
+// ============================================================================
+
+export const applyRuleFixes = (tableHtml: string): RuleFixResult => {
+  const table = parseHtml(tableHtml).querySelector('table');
+
+  const markdown = convertMarkdown(tableHtml, table);
+  if (markdown) {
+    return markdown;
+  }
+
+  if (!table) {
+    return { html: tableHtml, changed: false, applied: [] };
+  }
+
+  const applied: string[] = [];
+
+  fixLooseEntities(table, applied);
+  clampRowspans(table, applied);
+  fixSpuriousRowspans(table, applied);
+  removeEmptyColumns(table, applied);
+  mergeEmptyHeaders(table, applied);
+
+  if (applied.length === 0) {
+    return { html: tableHtml, changed: false, applied };
+  }
+
+  return { html: table.outerHTML, changed: true, applied };
+};
+
+// Aplica as regras e re-audita; `keep` replica o filtro de severidade do batch
+export const autoFixTable = (
+  tableHtml: string,
+  context: AuditContext,
+  keep: (issue: Issue) => boolean,
+  auditRules?: CompiledAuditRules
+): AutoFixResult => {
+  const result = applyRuleFixes(tableHtml);
+  return { ...result, remaining: analyzeTable(result.html, context, auditRules).filter(keep) };
+};
+
+// MARKDOWN_TABLE_IN_FIELD: converte uma tabela Markdown do campo e re-audita o HTML gerado.
+// Malformada = sem mudança, a IA recebe o Markdown original
+export const autoFixMarkdownTable = (
+  markdown: string,
+  context: AuditContext,
+  keep: (issue: Issue) => boolean,
+  auditRules?: CompiledAuditRules
+): AutoFixResult => {
+  const { html, error } = convertMarkdownTable(markdown);
+  if (!html) {
+    return { html: markdown, changed: false, applied: [], remaining: [], error };
+  }
+
+  const result = applyRuleFixes(html);
+  return {
+    ...result,
+    changed: true,
+    applied: ['MARKDOWN_TABLE_IN_FIELD: converted Markdown table to HTML', ...result.applied],
+    remaining: analyzeTable(result.html, context, auditRules).filter(keep),
+  };
+};
+
+// CONTENT_SWALLOW: tira os blocos de layout da tabela e devolve tabela + blocos como irmãos
+// (o domReplace insere o fragmento inteiro no lugar da tabela). Tabela sem dados depois da
+// extração some; o que sobrou nela (ex.: um cabeçalho "Dica") vira parágrafo antes dos blocos.
+// A task termina aqui: issues da tabela que ficou só são reportadas (tableIssues), porque a IA
+// devolveria apenas a tabela e os blocos se perderiam.
+export const extractSwallowedContent = (
+  tableHtml: string,
+  context: AuditContext,
+  auditRules: CompiledAuditRules = DEFAULT_AUDIT_RULES
+): AutoFixResult => {
+  const unchanged: AutoFixResult = { html: tableHtml, changed: false, applied: [], remaining: [] };
+  const table = parseHtml(tableHtml).querySelector('table');
+  if (!table) return unchanged;
+
+  const blocks = extractLayoutBlocks(table, auditRules);
+  // Nada a extrair das células (ex.: marcador no atributo da própria tabela): segue para a IA
+  if (blocks.length === 0 || auditRules.contentSwallow.test(table.outerHTML)) return unchanged;
+
+  const { headerRow, bodyRows } = getHeaderAndBodyRows(table);
+  const hasData = bodyRows.some(row => row.querySelectorAll(':scope > td, :scope > th').some(cellHasContent));
+
+  let tablePart = '';
+  let tableIssues: string[] = [];
+
+  if (hasData) {
+    tablePart = table.outerHTML;
+    tableIssues = [...new Set(analyzeTable(tablePart, context, auditRules).map(i => i.type))];
+  } else {
+    tablePart = (headerRow ? [headerRow, ...bodyRows] : bodyRows)
+      .map(row => row.querySelectorAll(':scope > td, :scope > th').filter(cellHasContent).map(c => c.innerHTML.trim()))
+      .filter(cells => cells.length > 0)
+      .map(cells => `<p>${cells.join(' ')}</p>`)
+      .join('');
+  }
+
+  return {
+    html: tablePart + blocks.join(''),
+    changed: true,
+    applied: [`CONTENT_SWALLOW: moved ${blocks.length} block(s) out of the table${hasData ? '' : ', table had no data left and was removed'}`],
+    remaining: [],
+    moved: blocks.map(summarizeBlock),
+    tableIssues,
+  };
+};
+
+// SPLIT_TABLE: junta os fragmentos (tabelas seguidas do campo) numa tabela só, anexando as
+// linhas dos fragmentos ao corpo da primeira
+export const joinSplitTables = (fragmentsHtml: string): { html: string; tables: number; rows: number } => {
+  const body = parseHtml(`<body>${fragmentsHtml}</body>`).querySelector('body')!;
+  const [first, ...rest] = body.querySelectorAll(':scope > table');
+  if (!first) return { html: fragmentsHtml, tables: 0, rows: 0 };
+
+  let rows = 0;
+  for (const fragment of rest) {
+    const fragmentRows = fragment.querySelectorAll(':scope > tbody > tr, :scope > tr');
+    rows += fragmentRows.length;
+
+    const tbodies = first.querySelectorAll(':scope > tbody');
+    const markup = fragmentRows.map(r => r.outerHTML).join('');
+    if (tbodies.length > 0) tbodies[tbodies.length - 1].insertAdjacentHTML('beforeend', markup);
+    else first.insertAdjacentHTML('beforeend', `<tbody>${markup}</tbody>`);
+  }
+
+  return { html: first.outerHTML, tables: rest.length + 1, rows };
+};
+
+// HTML que a IA recebe para uma task (FIELD_REPAIR guarda os fragmentos originais)
+export const repairInputHtml = (task: { taskType: string; rawHtml: string }): string =>
+  task.taskType === 'FIELD_REPAIR' ? joinSplitTables(task.rawHtml).html : task.rawHtml;
+
+// A junção é o reparo em si (roda sempre); com autoFix, a tabela resultante ainda passa
+// pelas regras acima antes da re-auditoria
+export const mergeSplitTables = (
+  fragmentsHtml: string,
+  context: AuditContext,
+  keep: (issue: Issue) => boolean,
+  auditRules?: CompiledAuditRules,
+  autoFix = true
+): AutoFixResult => {
+  const joined = joinSplitTables(fragmentsHtml);
+  if (joined.tables < 2) {
+    return { html: fragmentsHtml, changed: false, applied: [], remaining: [] };
+  }
+
+  const merged = autoFix ? applyRuleFixes(joined.html) : { html: joined.html, applied: [] as string[] };
+
+  return {
+    html: merged.html,
+    changed: true,
+    applied: [`SPLIT_TABLE: merged ${joined.tables} tables (${joined.rows} row(s) appended)`, ...merged.applied],
+    remaining: analyzeTable(merged.html, context, auditRules).filter(keep),
+  };
+};
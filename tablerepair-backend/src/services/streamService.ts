@@ -0,0 +1,152 @@
+/**
+ * STREAM SERVICE
+ *
+ * Junta as fontes de eventos de um batch para o WebSocket:
+ * - repairQueueEvents (BullMQ): task concluída / falhou
+ * - eventService (Redis Pub/Sub): novos ProcessLog e mudanças de status
+ * - snapshots de BatchProgress (throttled) após cada mudança
+ */
+
+import { repairQueueEvents } from '../config/queue.js';
+import { db } from './dbService.js';
+import { subscribeToBatch } from './eventService.js';
+import { createLogger } from '../utils/logger.js';
+import type { BatchEvent } from '../utils/types.js';
+
+const log = createLogger('streamService');
+
+// Intervalo mínimo entre snapshots de progresso por batch
+const PROGRESS_THROTTLE_MS = 1000;
+
+type StreamSender = (event: BatchEvent) => void;
+
+const senders = new Map<string, Set<StreamSender>>();
+const progressTimers = new Map<string, NodeJS.Timeout>();
+
+// Cache taskId -> batchId para eventos 'completed' sem batchId no returnvalue
+const taskBatchCache = new Map<string, string>();
+const TASK_CACHE_LIMIT = 10_000;
+
+let queueListenersAttached = false;
+
+const dispatch = (event: BatchEvent): void => {
+  const batchSenders = senders.get(event.batchId);
+  if (!batchSenders) return;
+
+  for (const send of batchSenders) {
+    send(event);
+  }
+};
+
+const scheduleProgress = (batchId: string): void => {
+  if (progressTimers.has(batchId)) return;
+
+  const timer = setTimeout(async () => {
+    progressTimers.delete(batchId);
+    if (!senders.has(batchId)) return;
+
+    try {
+      const progress = await db.getBatchProgress(batchId);
+      if (progress) dispatch({ type: 'progress', batchId, progress });
+    } catch (error: any) {
+      log.warn('Falha ao gerar snapshot de progresso', { batchId, error: error.message });
+    }
+  }, PROGRESS_THROTTLE_MS);
+
+  progressTimers.set(batchId, timer);
+};
+
+const resolveBatchId = async (taskId: string): Promise<string | null> => {
+  const cached = taskBatchCache.get(taskId);
+  if (cached) return cached;
+
+  const task = await db.getTask(taskId);
+  if (!task) return null;
+
+  if (taskBatchCache.size >= TASK_CACHE_LIMIT) taskBatchCache.clear();
+  taskBatchCache.set(taskId, task.batchId);
+  return task.batchId;
+};
+
+const parseReturnValue = (raw: unknown): { batchId?: string; taskId?: string; success?: boolean; error?: string } => {
+  if (raw && typeof raw === 'object') return raw as any;
+  if (typeof raw !== 'string') return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+};
+
+const attachQueueListeners = (): void => {
+  if (queueListenersAttached) return;
+  queueListenersAttached = true;
+
+  repairQueueEvents.on('completed', async ({ jobId, returnvalue }) => {
+    if (senders.size === 0) return;
+
+    const result = parseReturnValue(returnvalue);
+    const batchId = result.batchId || await resolveBatchId(jobId);
+    if (!batchId || !senders.has(batchId)) return;
+
+    dispatch({
+      type: 'task',
+      batchId,
+      taskId: result.taskId || jobId,
+      result: result.success === false ? 'failed' : 'completed',
+      error: result.error,
+    });
+    scheduleProgress(batchId);
+  });
+
+  repairQueueEvents.on('failed', async ({ jobId, failedReason }) => {
+    if (senders.size === 0) return;
+
+    // O worker grava o status antes do BullMQ emitir: FAILED na última tentativa, RETRY nas outras
+    const task = await db.getTask(jobId);
+    if (!task || !senders.has(task.batchId)) return;
+
+    const result = task.status === 'FAILED' ? 'failed' : 'retry';
+    dispatch({ type: 'task', batchId: task.batchId, taskId: jobId, result, error: failedReason });
+    scheduleProgress(task.batchId);
+  });
+};
+
+// ==========================================
+// API
+// ==========================================
+
+export async function openBatchStream(batchId: string, send: StreamSender): Promise<() => Promise<void>> {
+  attachQueueListeners();
+
+  let batchSenders = senders.get(batchId);
+  if (!batchSenders) {
+    batchSenders = new Set();
+    senders.set(batchId, batchSenders);
+  }
+  batchSenders.add(send);
+
+  const unsubscribe = await subscribeToBatch(batchId, (event) => {
+    send(event);
+    if (event.type === 'status') scheduleProgress(batchId);
+  });
+
+  // Snapshot inicial
+  const progress = await db.getBatchProgress(batchId);
+  if (progress) send({ type: 'progress', batchId, progress });
+
+  return async () => {
+    await unsubscribe();
+
+    const current = senders.get(batchId);
+    if (!current) return;
+
+    current.delete(send);
+    if (current.size === 0) {
+      senders.delete(batchId);
+      const timer = progressTimers.get(batchId);
+      if (timer) clearTimeout(timer);
+      progressTimers.delete(batchId);
+    }
+  };
+}
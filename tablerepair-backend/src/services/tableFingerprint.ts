@@ -0,0 +1,139 @@
+/**
+ * TABLE FINGERPRINT
+ *
+ * Endereçamento estável das tabelas de um campo. Cada task guarda a impressão digital da
+ * tabela original (sha256 do HTML normalizado) e uma âncora (o texto logo antes dela);
+ * na geração da saída o alvo é localizado por elas, não pela posição. Assim um reparo que
+ * remove tabelas do campo (CONTENT_SWALLOW) ou um arquivo já modificado não desviam o
+ * reparo para outra tabela: sem alvo, o reparo não é aplicado e vira conflito no log.
+ * Tasks sem impressão digital continuam sendo aplicadas pelo tableIndex.
+ */
+
+import { createHash } from 'crypto';
+import { HtmlElement, HtmlText, parseHtml } from '../utils/dom.js';
+import { findMarkdownTables } from './markdownTableService.js';
+
+// Caracteres de texto guardados na âncora
+const ANCHOR_LENGTH = 80;
+
+export interface TableFingerprint {
+  fingerprint: string;
+  anchor: string;
+}
+
+// Alvo de um reparo: tableSpan tabelas a partir de tableIndex (posição no campo original)
+export interface TableTarget {
+  tableIndex: number;
+  tableSpan?: number;
+  fingerprint?: string | null;
+  anchor?: string | null;
+}
+
+export type LocateResult =
+  | { index: number; conflict?: undefined }
+  | { index: null; conflict: string };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// HTML serializado pelo parse5, sem diferença de espaços entre tags (também usado pelo RepairCache)
+export const normalizeHtml = (html: string): string => collapse(html.replace(/>\s+</g, '><'));
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+// Texto antes da tabela: irmãos anteriores, subindo até o body (comentários não contam)
+const anchorOf = (table: HtmlElement, body: HtmlElement): string => {
+  let text = '';
+  for (let current: HtmlElement | null = table; current && current !== body; current = current.parentElement) {
+    for (let node = current.previousSibling; node; node = node.previousSibling) {
+      if (node instanceof HtmlText) text = `${node.nodeValue} ${text}`;
+      else if (node instanceof HtmlElement) text = `${node.textContent} ${text}`;
+      if (collapse(text).length >= ANCHOR_LENGTH) return collapse(text).slice(-ANCHOR_LENGTH);
+    }
+  }
+  return collapse(text).slice(-ANCHOR_LENGTH);
+};
+
+// Impressão de cada janela [i, i + span) de tabelas seguidas
+const fingerprintWindows = (tables: HtmlElement[], body: HtmlElement, span: number): TableFingerprint[] => {
+  const normalized = tables.map(t => normalizeHtml(t.outerHTML));
+  const windows: TableFingerprint[] = [];
+  for (let i = 0; i + span <= tables.length; i++) {
+    windows.push({
+      fingerprint: sha256(normalized.slice(i, i + span).join('\n')),
+      anchor: anchorOf(tables[i], body),
+    });
+  }
+  return windows;
+};
+
+const fingerprintMarkdownBlocks = (text: string): TableFingerprint[] =>
+  findMarkdownTables(text).map(block => ({
+    fingerprint: sha256(block.markdown.split('\n').map(collapse).filter(Boolean).join('\n')),
+    anchor: collapse(text.slice(0, block.start)).slice(-ANCHOR_LENGTH),
+  }));
+
+const parseBody = (fieldHtml: string): HtmlElement =>
+  parseHtml(`<body>${fieldHtml}</body>`).querySelector('body')!;
+
+// ============================================================================
+// API
+// ============================================================================
+
+// Tabelas de topo do campo (as aninhadas fazem parte da tabela que as contém)
+export const topLevelTables = (body: HtmlElement): HtmlElement[] =>
+  body.querySelectorAll('table').filter(t => {
+    let p = t.parentElement;
+    while (p && p !== body) {
+      if (p.tagName === 'TABLE') return false;
+      p = p.parentElement;
+    }
+    return true;
+  });
+
+// Impressão das tableSpan tabelas a partir de tableIndex; null = fora do campo
+export function fingerprintTables(fieldHtml: string, tableIndex: number, tableSpan = 1): TableFingerprint | null {
+  const body = parseBody(fieldHtml);
+  return fingerprintWindows(topLevelTables(body), body, tableSpan)[tableIndex] ?? null;
+}
+
+// Impressão da tabela Markdown de posição blockIndex no texto do campo
+export function fingerprintMarkdownTable(text: string, blockIndex: number): TableFingerprint | null {
+  return fingerprintMarkdownBlocks(text)[blockIndex] ?? null;
+}
+
+// Escolhe o alvo entre os candidatos: impressão digital, depois âncora, depois posição
+export function pickTarget(candidates: TableFingerprint[], target: TableTarget): LocateResult {
+  if (!target.fingerprint) {
+    return target.tableIndex < candidates.length
+      ? { index: target.tableIndex }
+      : { index: null, conflict: `Table index ${target.tableIndex} out of bounds (${candidates.length} candidates)` };
+  }
+
+  const matches = candidates.flatMap((c, i) => (c.fingerprint === target.fingerprint ? [i] : []));
+  if (matches.length === 0) {
+    return { index: null, conflict: 'Original table not found in field' };
+  }
+
+  const anchored = matches.filter(i => candidates[i].anchor === target.anchor);
+  const pool = anchored.length > 0 ? anchored : matches;
+  if (pool.length === 1) return { index: pool[0] };
+
+  // Tabelas idênticas com o mesmo texto antes: a posição original desempata
+  if (pool.includes(target.tableIndex)) return { index: target.tableIndex };
+
+  return { index: null, conflict: `Original table matches ${pool.length} tables in field` };
+}
+
+// Índice da primeira tabela do alvo entre as tabelas de topo do campo
+export function locateTable(tables: HtmlElement[], body: HtmlElement, target: TableTarget): LocateResult {
+  return pickTarget(fingerprintWindows(tables, body, target.tableSpan ?? 1), target);
+}
+
+// Índice do bloco Markdown do alvo no texto do campo (findMarkdownTables)
+export function locateMarkdownTable(text: string, target: TableTarget): LocateResult {
+  return pickTarget(fingerprintMarkdownBlocks(text), target);
+}
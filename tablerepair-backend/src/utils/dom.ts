@@ -0,0 +1,429 @@
+/**
+ * DOM (abstração interna)
+ *
+ * Subconjunto do DOM usado pela auditoria e pelos reparos, em cima do parse5 (o mesmo
+ * parser HTML5 que o jsdom usa por baixo, sem window, CSSOM e afins). A árvore gerada é
+ * a mesma do jsdom (`scriptingEnabled: false`, como o jsdom sem runScripts) e a
+ * serialização (innerHTML/outerHTML) usa o mesmo serializador.
+ *
+ * Seletores suportados: tag, `*`, `[attr]`, `:scope`, listas com vírgula e os
+ * combinadores descendente (espaço) e filho (`>`).
+ */
+
+import { parse, parseFragment, serialize, serializeOuter, html as html5 } from 'parse5';
+import type { DefaultTreeAdapterTypes as P5 } from 'parse5';
+
+const PARSER_OPTIONS = { scriptingEnabled: false };
+
+// Um wrapper por nó: comparações por identidade (===, Set, indexOf) funcionam como no DOM
+const wrappers = new WeakMap<P5.Node, HtmlNode>();
+
+const isElement = (node: P5.Node): node is P5.Element =>
+  'tagName' in node;
+
+const isText = (node: P5.Node): node is P5.TextNode =>
+  node.nodeName === '#text';
+
+const isParent = (node: P5.Node): node is P5.ParentNode =>
+  'childNodes' in node;
+
+const isComment = (node: P5.Node): node is P5.CommentNode =>
+  node.nodeName === '#comment';
+
+function wrapElement(node: P5.Element): HtmlElement {
+  let wrapper = wrappers.get(node) as HtmlElement | undefined;
+  if (!wrapper) {
+    wrapper = new HtmlElement(node);
+    wrappers.set(node, wrapper);
+  }
+  return wrapper;
+}
+
+function wrapText(node: P5.TextNode): HtmlText {
+  let wrapper = wrappers.get(node) as HtmlText | undefined;
+  if (!wrapper) {
+    wrapper = new HtmlText(node);
+    wrappers.set(node, wrapper);
+  }
+  return wrapper;
+}
+
+function wrapComment(node: P5.CommentNode): HtmlComment {
+  let wrapper = wrappers.get(node) as HtmlComment | undefined;
+  if (!wrapper) {
+    wrapper = new HtmlComment(node);
+    wrappers.set(node, wrapper);
+  }
+  return wrapper;
+}
+
+// Irmão seguinte (elemento, texto ou comentário), como Node.nextSibling
+function nextSiblingOf(node: P5.ChildNode): HtmlNode | null {
+  const siblings = node.parentNode?.childNodes ?? [];
+  for (let i = siblings.indexOf(node) + 1; i > 0 && i < siblings.length; i++) {
+    const next = siblings[i];
+    if (isElement(next)) return wrapElement(next);
+    if (isText(next)) return wrapText(next);
+    if (isComment(next)) return wrapComment(next);
+  }
+  return null;
+}
+
+// Irmão anterior, como Node.previousSibling
+function previousSiblingOf(node: P5.ChildNode): HtmlNode | null {
+  const siblings = node.parentNode?.childNodes ?? [];
+  for (let i = siblings.indexOf(node) - 1; i >= 0; i--) {
+    const prev = siblings[i];
+    if (isElement(prev)) return wrapElement(prev);
+    if (isText(prev)) return wrapText(prev);
+    if (isComment(prev)) return wrapComment(prev);
+  }
+  return null;
+}
+
+// Conteúdo de <template> fica fora da árvore (como no DOM): só childNodes é percorrido
+function* descendants(root: P5.ParentNode): Generator<P5.ChildNode> {
+  const stack: P5.ChildNode[] = [...root.childNodes].reverse();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    yield node;
+    if (isParent(node)) {
+      for (let i = node.childNodes.length - 1; i >= 0; i--) stack.push(node.childNodes[i]);
+    }
+  }
+}
+
+const detach = (node: P5.ChildNode): void => {
+  const parent = node.parentNode;
+  if (!parent) return;
+  const idx = parent.childNodes.indexOf(node);
+  if (idx !== -1) parent.childNodes.splice(idx, 1);
+  node.parentNode = null;
+};
+
+// ==========================================
+// SELETORES
+// ==========================================
+
+interface Compound {
+  tag: string | null; // null = qualquer
+  attrs: string[];
+  scope: boolean;
+}
+
+// Da direita para a esquerda: compounds[0] é o elemento testado
+interface Complex {
+  compounds: Compound[];
+  combinators: Array<' ' | '>'>; // combinators[i] liga compounds[i] a compounds[i + 1]
+}
+
+const selectorCache = new Map<string, Complex[]>();
+
+const SELECTOR_TOKEN = /\s*(>)\s*|\s+|(\*|[a-zA-Z][a-zA-Z0-9-]*)|\[\s*([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*\]|(:scope)/y;
+
+function parseComplex(source: string): Complex {
+  const compounds: Compound[] = [];
+  const combinators: Array<' ' | '>'> = [];
+  let current: Compound | null = null;
+  let pending: ' ' | '>' | null = null;
+
+  const text = source.trim();
+  SELECTOR_TOKEN.lastIndex = 0;
+
+  while (SELECTOR_TOKEN.lastIndex < text.length) {
+    const match = SELECTOR_TOKEN.exec(text);
+    if (!match) throw new Error(`Unsupported selector: "${source}"`);
+
+    const [, child, tag, attr, scope] = match;
+
+    if (child || (!tag && !attr && !scope)) {
+      if (!current) throw new Error(`Unsupported selector: "${source}"`);
+      pending = child ? '>' : (pending ?? ' ');
+      continue;
+    }
+
+    if (!current || pending) {
+      if (current) {
+        compounds.push(current);
+        combinators.push(pending!);
+      }
+      current = { tag: null, attrs: [], scope: false };
+      pending = null;
+    }
+
+    if (tag) current.tag = tag === '*' ? null : tag.toLowerCase();
+    if (attr) current.attrs.push(attr.toLowerCase());
+    if (scope) current.scope = true;
+  }
+
+  if (!current || pending) throw new Error(`Unsupported selector: "${source}"`);
+  compounds.push(current);
+
+  return { compounds: compounds.reverse(), combinators: combinators.reverse() };
+}
+
+function compileSelector(selector: string): Complex[] {
+  let compiled = selectorCache.get(selector);
+  if (!compiled) {
+    compiled = selector.split(',').map(parseComplex);
+    selectorCache.set(selector, compiled);
+  }
+  return compiled;
+}
+
+const matchesCompound = (node: P5.Element, compound: Compound, scope: P5.ParentNode): boolean => {
+  if (compound.scope && node !== scope) return false;
+  if (compound.tag && node.tagName !== compound.tag) return false;
+  return compound.attrs.every(name => node.attrs.some(a => a.name === name));
+};
+
+const parentElementOf = (node: P5.Node): P5.Element | null => {
+  const parent = (node as P5.ChildNode).parentNode;
+  return parent && isElement(parent) ? parent : null;
+};
+
+function matchesFrom(node: P5.Element, complex: Complex, index: number, scope: P5.ParentNode): boolean {
+  if (!matchesCompound(node, complex.compounds[index], scope)) return false;
+  if (index === complex.compounds.length - 1) return true;
+
+  if (complex.combinators[index] === '>') {
+    const parent = parentElementOf(node);
+    return !!parent && matchesFrom(parent, complex, index + 1, scope);
+  }
+
+  for (let p = parentElementOf(node); p; p = parentElementOf(p)) {
+    if (matchesFrom(p, complex, index + 1, scope)) return true;
+  }
+  return false;
+}
+
+function select(root: P5.ParentNode, selector: string, first: boolean): HtmlElement[] {
+  const compiled = compileSelector(selector);
+  const found: HtmlElement[] = [];
+
+  for (const node of descendants(root)) {
+    if (!isElement(node)) continue;
+    if (compiled.some(complex => matchesFrom(node, complex, 0, root))) {
+      found.push(wrapElement(node));
+      if (first) break;
+    }
+  }
+
+  return found;
+}
+
+// ==========================================
+// NÓS
+// ==========================================
+
+export type HtmlNode = HtmlElement | HtmlText | HtmlComment;
+
+export class HtmlText {
+  constructor(private readonly node: P5.TextNode) {}
+
+  get nodeValue(): string {
+    return this.node.value;
+  }
+
+  set nodeValue(value: string) {
+    this.node.value = value;
+  }
+
+  get nextSibling(): HtmlNode | null {
+    return nextSiblingOf(this.node);
+  }
+
+  get previousSibling(): HtmlNode | null {
+    return previousSiblingOf(this.node);
+  }
+}
+
+export class HtmlComment {
+  constructor(private readonly node: P5.CommentNode) {}
+
+  get nodeValue(): string {
+    return this.node.data;
+  }
+
+  get nextSibling(): HtmlNode | null {
+    return nextSiblingOf(this.node);
+  }
+
+  get previousSibling(): HtmlNode | null {
+    return previousSiblingOf(this.node);
+  }
+}
+
+export class HtmlElement {
+  constructor(private readonly node: P5.Element) {}
+
+  // Maiúsculo para HTML, como Element.tagName (svg/math mantêm o nome original)
+  get tagName(): string {
+    return this.node.namespaceURI === html5.NS.HTML ? this.node.tagName.toUpperCase() : this.node.tagName;
+  }
+
+  get parentElement(): HtmlElement | null {
+    const parent = parentElementOf(this.node);
+    return parent ? wrapElement(parent) : null;
+  }
+
+  get children(): HtmlElement[] {
+    return this.node.childNodes.filter(isElement).map(wrapElement);
+  }
+
+  get nextSibling(): HtmlNode | null {
+    return nextSiblingOf(this.node);
+  }
+
+  get previousSibling(): HtmlNode | null {
+    return previousSiblingOf(this.node);
+  }
+
+  get textContent(): string {
+    let text = '';
+    for (const node of descendants(this.node)) {
+      if (isText(node)) text += node.value;
+    }
+    return text;
+  }
+
+  get innerHTML(): string {
+    return serialize(this.node);
+  }
+
+  set innerHTML(markup: string) {
+    const fragment = parseFragment(this.node, markup, PARSER_OPTIONS);
+    for (const child of this.node.childNodes) child.parentNode = null;
+    this.node.childNodes = fragment.childNodes;
+    for (const child of this.node.childNodes) child.parentNode = this.node;
+  }
+
+  get outerHTML(): string {
+    return serializeOuter(this.node);
+  }
+
+  getAttribute(name: string): string | null {
+    return this.node.attrs.find(a => a.name === name)?.value ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    const attr = this.node.attrs.find(a => a.name === name);
+    if (attr) attr.value = value;
+    else this.node.attrs.push({ name, value });
+  }
+
+  removeAttribute(name: string): void {
+    this.node.attrs = this.node.attrs.filter(a => a.name !== name);
+  }
+
+  querySelector(selector: string): HtmlElement | null {
+    return select(this.node, selector, true)[0] ?? null;
+  }
+
+  querySelectorAll(selector: string): HtmlElement[] {
+    return select(this.node, selector, false);
+  }
+
+  contains(other: HtmlElement): boolean {
+    for (let n: P5.Node | null = other.node; n; n = (n as P5.ChildNode).parentNode ?? null) {
+      if (n === this.node) return true;
+    }
+    return false;
+  }
+
+  // Nós de texto descendentes, em ordem do documento (substitui o TreeWalker SHOW_TEXT)
+  textNodes(): HtmlText[] {
+    const texts: HtmlText[] = [];
+    for (const node of descendants(this.node)) {
+      if (isText(node)) texts.push(wrapText(node));
+    }
+    return texts;
+  }
+
+  remove(): void {
+    detach(this.node);
+  }
+
+  // 'afterbegin' fica de fora (nada usa)
+  insertAdjacentHTML(position: 'beforebegin' | 'afterend' | 'beforeend', markup: string): void {
+    if (position === 'beforeend') {
+      const nodes = parseFragment(this.node, markup, PARSER_OPTIONS).childNodes;
+      this.node.childNodes.push(...nodes);
+      for (const node of nodes) node.parentNode = this.node;
+      return;
+    }
+
+    const parent = this.node.parentNode;
+    if (!parent) return;
+
+    const nodes = (isElement(parent)
+      ? parseFragment(parent, markup, PARSER_OPTIONS)
+      : parseFragment(markup, PARSER_OPTIONS)).childNodes;
+    const idx = parent.childNodes.indexOf(this.node) + (position === 'afterend' ? 1 : 0);
+
+    parent.childNodes.splice(idx, 0, ...nodes);
+    for (const node of nodes) node.parentNode = parent;
+  }
+
+  replaceWith(other: HtmlElement): void {
+    const parent = this.node.parentNode;
+    if (!parent || other === this) return;
+
+    detach(other.node);
+    const idx = parent.childNodes.indexOf(this.node);
+    parent.childNodes.splice(idx, 1, other.node);
+    other.node.parentNode = parent;
+    this.node.parentNode = null;
+  }
+}
+
+export class HtmlDocument {
+  constructor(private readonly node: P5.Document) {}
+
+  querySelector(selector: string): HtmlElement | null {
+    return select(this.node, selector, true)[0] ?? null;
+  }
+
+  querySelectorAll(selector: string): HtmlElement[] {
+    return select(this.node, selector, false);
+  }
+
+  createElement(tagName: string): HtmlElement {
+    const tag = tagName.toLowerCase();
+    return wrapElement({
+      nodeName: tag,
+      tagName: tag,
+      attrs: [],
+      namespaceURI: html5.NS.HTML,
+      childNodes: [],
+      parentNode: null,
+    });
+  }
+}
+
+// ==========================================
+// API
+// ==========================================
+
+// Documento completo (html/head/body implícitos), como `new JSDOM(html)`
+export const parseHtml = (markup: string): HtmlDocument =>
+  new HtmlDocument(parse(markup, PARSER_OPTIONS));
+
+// Decodifica entidades HTML de um texto ("&hellip;" -> "…")
+export const decodeHtmlEntities = (text: string): string =>
+  parseFragment(text, PARSER_OPTIONS).childNodes
+    .map(node => (isText(node) ? node.value : ''))
+    .join('');
+
+const REGEX_LOOSE_ENTITY = /&([a-zA-Z]+)(?![a-zA-Z;])|&#(\d+)(?![0-9;])/g;
+
+// Decodifica entidades sem ponto-e-vírgula que o parser deixa como texto ("&hellip" -> "…")
+export const decodeLooseEntities = (text: string): string =>
+  text.replace(REGEX_LOOSE_ENTITY, (match, name?: string, code?: string) => {
+    if (code) {
+      const n = parseInt(code, 10);
+      return n > 0 && n <= 0x10FFFF ? String.fromCodePoint(n) : match;
+    }
+    const decoded = decodeHtmlEntities(`&${name};`);
+    return decoded === `&${name};` ? match : decoded;
+  });
@@ -0,0 +1,121 @@
+/**
+ * FIELD PATHS
+ *
+ * Caminhos dos campos auditados dentro da questão: `enunciado`, `comentario.texto`,
+ * `alternativas[*].texto`, `alternativas[0].texto`. `[*]` percorre todos os itens do array.
+ * A auditoria expande os padrões em caminhos concretos (sem `[*]`), que ficam em
+ * Issue.field / Task.field; a saída escreve o reparo de volta pelo mesmo caminho.
+ * Um campo simples continua sendo o próprio nome (`enunciado`).
+ */
+
+// Chave de objeto, índice de array ou `[*]` (todos os itens)
+export type PathSegment = string | number | '*';
+
+export interface FieldValue {
+  path: string; // caminho concreto, ex: "alternativas[2].texto"
+  value: string;
+}
+
+const KEY = /^[^.[\]*\s]+$/;
+const PART = /^([^.[\]*\s]+)((?:\[(?:\*|\d+)\])*)$/;
+const BRACKET = /\[(\*|\d+)\]/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// ============================================================================
+// API
+// ============================================================================
+
+export function parseFieldPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const part of path.split('.')) {
+    const match = PART.exec(part);
+    if (!match) throw new Error(`Invalid field path: "${path}"`);
+    segments.push(match[1]);
+    for (const [, index] of match[2].matchAll(BRACKET)) {
+      segments.push(index === '*' ? '*' : Number(index));
+    }
+  }
+  return segments;
+}
+
+export const isValidFieldPath = (path: string): boolean => {
+  try {
+    parseFieldPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatFieldPath = (segments: PathSegment[]): string =>
+  segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    if (segment === '*') return `${path}[*]`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+
+// Padrões em ordem, sem repetição (validados uma vez por shard)
+export const compileFieldPaths = (paths: readonly string[]): PathSegment[][] =>
+  [...new Set(paths)].map(parseFieldPath);
+
+// Valores de texto dos padrões na questão, na ordem dos padrões e dos itens dos arrays.
+// Caminhos inexistentes ou que não terminam em string são ignorados
+export function expandFieldPaths(question: unknown, patterns: PathSegment[][]): FieldValue[] {
+  const found = new Map<string, string>();
+
+  const walk = (value: unknown, rest: PathSegment[], done: PathSegment[]) => {
+    if (rest.length === 0) {
+      if (typeof value === 'string') {
+        const path = formatFieldPath(done);
+        if (!found.has(path)) found.set(path, value);
+      }
+      return;
+    }
+
+    const [segment, ...tail] = rest;
+    if (segment === '*') {
+      if (Array.isArray(value)) value.forEach((item, i) => walk(item, tail, [...done, i]));
+    } else if (typeof segment === 'number') {
+      if (Array.isArray(value) && segment < value.length) walk(value[segment], tail, [...done, segment]);
+    } else if (isRecord(value) && KEY.test(segment) && Object.hasOwn(value, segment)) {
+      walk(value[segment], tail, [...done, segment]);
+    }
+  };
+
+  for (const pattern of patterns) walk(question, pattern, []);
+  return Array.from(found, ([path, value]) => ({ path, value }));
+}
+
+// Valor num caminho concreto (undefined = caminho inexistente)
+export function getFieldValue(question: unknown, path: string): unknown {
+  let current: unknown = question;
+  for (const segment of parseFieldPath(path)) {
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment];
+    } else if (isRecord(current) && Object.hasOwn(current, segment)) {
+      current = current[segment as string];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// Grava o valor num caminho concreto já existente; false = caminho não encontrado
+export function setFieldValue(question: unknown, path: string, value: unknown): boolean {
+  const segments = parseFieldPath(path);
+  const last = segments.pop()!;
+  const parent = segments.length > 0 ? getFieldValue(question, formatFieldPath(segments)) : question;
+
+  if (typeof last === 'number') {
+    if (!Array.isArray(parent) || last >= parent.length) return false;
+    parent[last] = value;
+    return true;
+  }
+  if (last === '*' || !isRecord(parent) || !Object.hasOwn(parent, last)) return false;
+  parent[last] = value;
+  return true;
+}
@@ -23,8 +23,9 @@ export interface Issue {
   id: string;
   qid: string | number;
   questionIndex: number;
-  field: string;
+  field: string; // caminho do campo na questão (utils/fieldPaths), ex: "alternativas[2].texto"
   tableIndex: number;
+  tableSpan?: number; // SPLIT_TABLE: tabelas cobertas a partir de tableIndex
   severity: 'BAD' | 'WARN';
   type: string;
   title: string;
@@ -43,6 +44,19 @@ export interface AuditReport {
   issues: Issue[];
 }
 
+// Fatia contígua de questões auditada por uma thread (auditPool)
+export interface AuditShard {
+  startIndex: number; // questionIndex da primeira questão do shard
+  questions: Question[];
+  rules?: AuditRules | null; // regras do batch (null/ausente = padrão)
+  fields?: string[] | null; // caminhos auditados (null/vazio = FIELDS_TO_AUDIT do auditService)
+}
+
+export interface ShardAudit {
+  issues: Issue[]; // em ordem de questão, igual à execução serial
+  tables: number;
+}
+
 export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
@@ -51,7 +65,7 @@ export interface TokenUsage {
 
 export interface RepairAttempt {
   attemptNumber: number;
-  provider: 'google' | 'openrouter';
+  provider: string;
   prompt: string;
   rawResponse: string;
   cleanedHtml: string;
@@ -75,7 +89,7 @@ export interface RepairResult {
   repairedHtml: string;
   success: boolean;
   error?: string;
-  provider?: 'google' | 'openrouter';
+  provider?: string;
   usage?: TokenUsage;
   costBRL?: number;
   log?: RepairLog;
@@ -89,20 +103,56 @@ export interface RepairContext {
   texto_associado?: string;
   qid: string | number;
   field: string;
+  reviewerNote?: string; // nota do revisor quando o reparo anterior foi rejeitado
 }
 
 // ==========================================
 // TIPOS DO BACKEND (novos)
 // ==========================================
 
+// ==========================================
+// REGRAS DE AUDITORIA
+// ==========================================
+
+// IGNORE = a issue não é emitida (mesmo efeito de enabled: false)
+export type RuleSeverity = 'BAD' | 'WARN' | 'IGNORE';
+
+export interface AuditRuleOverride {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+}
+
+// Política de auditoria (perfil salvo e/ou opção do upload); campos ausentes = comportamento padrão
+export interface AuditRules {
+  rules?: Record<string, AuditRuleOverride>; // chave = tipo de issue (GHOST_COLUMN, AI_LAZY, ...)
+  keywords?: {
+    contentSwallow?: string[];   // textos que marcam layout engolido pela tabela (CONTENT_SWALLOW)
+    aiLazy?: string[];           // palavras entre colchetes que indicam placeholder da IA (AI_LAZY)
+    financialHeaders?: string[]; // cabeçalhos que tornam a tabela "financeira" (células vazias são normais)
+  };
+}
+
 export interface BatchCreateInput {
+  tenantId?: string | null;
   fileName: string;
   fileSize: number;
   inputFilePath: string;
-  strategy?: 'hybrid' | 'openrouter';
+  strategy?: string; // cadeia de provedores, ex: 'google,openrouter'
   dryRun?: boolean;
+  requireReview?: boolean;
+  maxCostBRL?: number; // orçamento do batch (BRL)
+  priority?: BatchPriority;
+  maxConcurrency?: number; // tasks simultâneas do batch (null/0 = MAX_CONCURRENT_PER_BATCH)
+  inputFormat?: InputFormat;
+  bypassCache?: boolean; // não reaproveita reparos do RepairCache
+  auditProfile?: string | null;
+  auditRules?: AuditRules | null;
+  auditFields?: string[] | null; // caminhos (utils/fieldPaths); null/vazio = campos padrão
 }
 
+// Peso do batch no fair share da fila
+export type BatchPriority = 'low' | 'normal' | 'high';
+
 export interface BatchProgress {
   batchId: string;
   status: string;
@@ -110,7 +160,16 @@ export interface BatchProgress {
   totalTasks: number;
   completedTasks: number;
   failedTasks: number;
+  awaitingReview: number;
+  pauseReason: string | null; // MANUAL | BUDGET_BATCH | BUDGET_DAILY (status PAUSED)
   percentage: number;
+  rulesFixed: number; // tasks resolvidas pelo auto-fixer (provider = 'rules', custo zero)
+  cache: {
+    enabled: boolean; // false = batch com bypassCache
+    hits: number; // tasks resolvidas pelo RepairCache (provider = 'cache', custo zero)
+    misses: number; // tasks enviadas à IA depois de consultar o cache
+    hitRate: number; // % de hits
+  };
   estimatedTimeRemaining?: number;
   costs: {
     tokensUsed: number;
@@ -118,17 +177,49 @@ export interface BatchProgress {
   };
 }
 
+export interface BatchListFilter {
+  tenantId?: string | null; // undefined = todos (admin)
+  statuses?: string[];
+  phase?: string;
+  from?: Date;
+  to?: Date;
+  fileName?: string; // substring, sem diferenciar maiúsculas
+  strategy?: string;
+  dryRun?: boolean;
+  minCostBRL?: number;
+  sortBy: 'createdAt' | 'updatedAt' | 'completedAt' | 'totalCostBRL' | 'totalIssues' | 'fileName';
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string; // id do último batch da página anterior
+}
+
 export interface TaskCreateInput {
   batchId: string;
   questionIndex: number;
   qid: string;
   field: string;
   tableIndex: number;
-  taskType: 'AUDIT' | 'REPAIR' | 'VALIDATE';
+  tableSpan?: number; // FIELD_REPAIR: tabelas substituídas a partir de tableIndex
+  fingerprint?: string | null; // impressão digital da tabela original (tableFingerprint.ts)
+  anchor?: string | null;
+  taskType: 'AUDIT' | 'REPAIR' | 'FIELD_REPAIR' | 'VALIDATE';
   issueType?: string;
   severity?: string;
   rawHtml?: string;
   context?: RepairContext;
+  // Tabelas resolvidas pelo auto-fixer já nascem finalizadas
+  status?: 'PENDING' | 'COMPLETED' | 'AWAITING_REVIEW';
+  repairedHtml?: string;
+  provider?: string;
+}
+
+export type SeverityFilter = 'BAD' | 'WARN' | 'ALL';
+
+// Auditoria em background de um batch recém-enviado
+export interface AuditJobPayload {
+  batchId: string;
+  severityFilter: SeverityFilter;
+  autoFix: boolean;
 }
 
 export interface JobPayload {
@@ -140,15 +231,91 @@ export interface JobPayload {
   tableIndex: number;
   rawHtml: string;
   context: RepairContext;
-  attempt: number;
+  strategy?: string; // sobrescreve Batch.strategy (ex: retry com outro provider)
+  virtualTime?: number; // fair share: tempo virtual do job (prioridade = virtualTime - base)
 }
 
-// Campos que são auditados em cada questão
-export const FIELDS_TO_AUDIT = [
-  'enunciado',
-  'resolucao',
-  'resolucao_aprofundada',
-  'texto_associado',
-] as const;
+// ==========================================
+// PROVEDORES DE IA
+// ==========================================
+
+// Classificação de erros para decidir entre retry no mesmo provider e fallback
+export type ProviderErrorKind = 'RATE_LIMIT' | 'AUTH' | 'QUOTA' | 'TRANSIENT' | 'FATAL';
+
+export interface ProviderPricing {
+  inputUSDPerMillion: number;
+  outputUSDPerMillion: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  usage: TokenUsage;
+  model: string;
+}
+
+// Preço por provider + modelo: ver config/pricing.ts
+export interface RepairProvider {
+  name: string;
+  model: string;
+  isConfigured(): boolean;
+  generate(prompt: string): Promise<ProviderResponse>;
+  classifyError(error: unknown): ProviderErrorKind;
+}
+
+// ==========================================
+// FORMATOS DE ENTRADA (services/inputFormats)
+// ==========================================
+
+export type InputFormat = 'json' | 'ndjson' | 'csv' | 'zip';
+
+export interface InputAdapter {
+  format: InputFormat;
+  extensions: string[]; // ".json", ".ndjson"... (minúsculas)
+  contentType: string; // do arquivo de saída
+  // Confere o começo do arquivo no upload
+  sniff(head: Buffer): boolean;
+  // Questões do arquivo, uma por vez, na ordem (questionIndex = posição)
+  readQuestions(filePath: string): AsyncGenerator<Question>;
+  // Grava as questões reparadas no mesmo formato (e layout) do arquivo original
+  writeQuestions(inputFilePath: string, outputFilePath: string, questions: Question[]): Promise<void>;
+}
+
+// Formato de texto: também usado nos arquivos de dentro de um ZIP
+export interface TextInputAdapter extends InputAdapter {
+  scan(chunks: AsyncIterable<string>): AsyncGenerator<Question>;
+  // Questões serializadas no formato do texto original (wrapper, colunas, separador...)
+  serialize(questions: Question[], originalText: string): string;
+}
+
+// ==========================================
+// AUTENTICAÇÃO
+// ==========================================
+
+export type ApiRole = 'CLIENT' | 'ADMIN';
+
+export interface AuthContext {
+  clientId: string | null; // null = chave admin do .env (ADMIN_API_KEYS)
+  tenantId: string | null;
+  role: ApiRole;
+}
+
+// ==========================================
+// EVENTOS DE BATCH (WebSocket)
+// ==========================================
+
+export interface BatchLogEntry {
+  id: string;
+  level: string;
+  message: string;
+  taskId: string | null;
+  questionIndex: number | null;
+  field: string | null;
+  createdAt: Date | string;
+  metadata: unknown;
+}
 
-export type AuditableField = typeof FIELDS_TO_AUDIT[number];
+export type BatchEvent =
+  | { type: 'progress'; batchId: string; progress: BatchProgress }
+  | { type: 'status'; batchId: string; status: string; phase: string }
+  | { type: 'task'; batchId: string; taskId: string; result: 'completed' | 'failed' | 'retry'; error?: string }
+  | { type: 'log'; batchId: string; log: BatchLogEntry };
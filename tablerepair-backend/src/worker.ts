@@ -1,6 +1,7 @@
 /**
- * Entry point para o worker de reparos
+ * Entry point para os workers (reparos + auditoria de uploads)
  * Executar: npm run worker
  */
 
 import './workers/repairWorker.js';
+import './workers/auditWorker.js';
@@ -0,0 +1,17 @@
+/**
+ * AUDIT THREAD
+ *
+ * Thread do pool de auditoria (auditPool): recebe um shard de questões e devolve as issues.
+ */
+
+import { parentPort } from 'worker_threads';
+import { auditShard } from '../services/auditService.js';
+import type { AuditShard } from '../utils/types.js';
+
+parentPort!.on('message', (shard: AuditShard) => {
+  try {
+    parentPort!.postMessage({ result: auditShard(shard) });
+  } catch (error: any) {
+    parentPort!.postMessage({ error: error.message });
+  }
+});
@@ -0,0 +1,75 @@
+/**
+ * AUDIT WORKER
+ *
+ * Processa a fila "audit": cada job é a auditoria de um upload inteiro.
+ * Roda fora do processo da API, então um arquivo grande não trava as requisições.
+ */
+
+import { Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '../config/env.js';
+import { db } from '../services/dbService.js';
+import { runBatchAudit } from '../services/ingestService.js';
+import { closeAuditPool } from '../services/auditPool.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuditJobPayload } from '../utils/types.js';
+
+const log = createLogger('auditWorker');
+
+const connection = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+const worker = new Worker<AuditJobPayload>(
+  'audit',
+  async (job: Job<AuditJobPayload>) => {
+    const { batchId } = job.data;
+
+    log.info('Auditing batch', { jobId: job.id, batchId });
+
+    try {
+      await runBatchAudit(job.data);
+    } catch (error: any) {
+      log.error('Audit error', { batchId, error: error.message });
+
+      await db.updateBatchStatus(batchId, 'FAILED');
+      await db.createLog(batchId, 'ERROR', 'Audit failed', {
+        metadata: { error: error.message },
+        stackTrace: error.stack,
+      });
+
+      throw error;
+    }
+  },
+  {
+    connection,
+    concurrency: 1, // CPU-bound (parse HTML): um arquivo por vez por processo
+    // Auditoria de arquivo grande demora; renova o lock com folga
+    lockDuration: 5 * 60 * 1000,
+  }
+);
+
+worker.on('failed', (job, error) => {
+  log.warn('Audit job failed', {
+    jobId: job?.id,
+    error: error.message,
+  });
+});
+
+worker.on('error', (error) => {
+  log.error('Audit worker error', { error: error.message });
+});
+
+// Graceful shutdown (eventos e Prisma ficam com o repairWorker)
+async function shutdown() {
+  await worker.close();
+  await closeAuditPool();
+  connection.disconnect();
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
+log.info('Audit worker started');
+
+export { worker as auditWorker };
@@ -5,16 +5,71 @@
  * Cada job representa uma tabela para reparar.
  */
 
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import Redis from 'ioredis';
 import { env } from '../config/env.js';
+import { PAUSED_JOB_DELAY_MS, acquireBatchSlot, advanceVirtualClock, releaseBatchSlot } from '../config/queue.js';
 import { db } from '../services/dbService.js';
+import { closeEvents } from '../services/eventService.js';
 import { repairTableWithGemini, countExpectedCols } from '../services/repairService.js';
+import { checkBatchCompletion } from '../services/outputService.js';
+import { checkBudget, estimateTaskCostBRL, pauseForBudget } from '../services/budgetService.js';
+import { storeRepair } from '../services/repairCacheService.js';
 import { createLogger } from '../utils/logger.js';
-import type { JobPayload } from '../utils/types.js';
+import type { AuditRules, JobPayload, RepairResult } from '../utils/types.js';
 
 const log = createLogger('repairWorker');
 
+// Batch no limite de concorrência: job volta para a fila por pouco tempo
+const BATCH_SLOT_RETRY_MS = 2000;
+
+// Mantém o job na fila (delayed) sem consumir tentativa
+async function holdJob(job: Job<JobPayload>, token: string | undefined, delayMs: number = PAUSED_JOB_DELAY_MS): Promise<never> {
+  await job.moveToDelayed(Date.now() + delayMs, token);
+  throw new DelayedError();
+}
+
+// Tentativa atual (1..N) pelo BullMQ: `attemptsMade` só conta as que falharam (jobs adiados não contam)
+const attemptOf = (job: Job<JobPayload>) => ({ attempt: job.attemptsMade + 1, maxAttempts: job.opts.attempts ?? 1 });
+
+// Última tentativa: a task vira FAILED e entra no failedCount (o retry do batch a encontra)
+async function failTask(job: Job<JobPayload>, error: string | undefined, maxAttempts: number): Promise<void> {
+  const { taskId, batchId, questionIndex, field } = job.data;
+
+  await db.updateTaskStatus(taskId, 'FAILED', { lastError: error });
+  await db.incrementBatchCounters(batchId, { failedCount: 1 });
+
+  await db.createLog(batchId, 'ERROR', `Table repair failed after ${maxAttempts} attempts`, {
+    taskId,
+    questionIndex,
+    field,
+    metadata: { error },
+  });
+
+  log.error('Job permanently failed', { jobId: job.id, taskId, error });
+}
+
+// Contabiliza o gasto (sucesso ou falha) e pausa o batch se o orçamento real estourou
+async function recordSpend(batchId: string, taskId: string, result: RepairResult, successCount: number): Promise<void> {
+  const tokens = result.usage?.totalTokens || 0;
+  const cost = result.costBRL || 0;
+
+  const batch = await db.incrementBatchCounters(batchId, {
+    successCount,
+    totalTokensUsed: tokens,
+    totalCostBRL: cost,
+  });
+
+  if (cost > 0 || tokens > 0) {
+    await db.addDailySpend(cost, tokens);
+  }
+
+  const exceeded = await checkBudget(batch);
+  if (exceeded) {
+    await pauseForBudget(batchId, exceeded, taskId);
+  }
+}
+
 // Conexão Redis para o worker
 const connection = new Redis(env.REDIS_URL, {
   maxRetriesPerRequest: null,
@@ -23,30 +78,58 @@ const connection = new Redis(env.REDIS_URL, {
 // Criar worker
 const worker = new Worker<JobPayload>(
   'repair',
-  async (job: Job<JobPayload>) => {
-    const { taskId, batchId, questionIndex, qid, field, tableIndex, rawHtml, context, attempt } = job.data;
+  async (job: Job<JobPayload>, token?: string) => {
+    const { taskId, batchId, questionIndex, qid, field, rawHtml, context } = job.data;
+    const { attempt, maxAttempts } = attemptOf(job);
 
     log.info('Processing job', {
       jobId: job.id,
       taskId,
       qid,
       field,
-      attempt: attempt + 1,
+      attempt,
     });
 
+    let holdsSlot = false;
+
     try {
-      // Atualizar status para PROCESSING
-      await db.updateTaskStatus(taskId, 'PROCESSING', {
-        bullJobId: job.id,
-        attempts: attempt + 1,
-      });
+      // Fair share: o relógio global avança com os jobs que saem da fila
+      if (job.data.virtualTime !== undefined) await advanceVirtualClock(job.data.virtualTime);
+
+      // Buscar batch para saber a cadeia de provedores e o orçamento
+      const batch = await db.getBatch(batchId);
+      const strategy = job.data.strategy || batch?.strategy || env.DEFAULT_PROVIDER_CHAIN;
 
       // Contar colunas esperadas
       const expectedCols = countExpectedCols(rawHtml);
 
-      // Buscar batch para saber a estratégia
-      const batch = await db.getBatch(batchId);
-      const strategy = (batch?.strategy as 'hybrid' | 'openrouter') || 'hybrid';
+      if (batch?.status === 'PAUSED') {
+        log.debug('Batch paused, holding job', { jobId: job.id, batchId });
+        await holdJob(job, token);
+      }
+
+      // Orçamento: gasto projetado com este reparo
+      if (batch) {
+        const estimate = estimateTaskCostBRL(rawHtml, expectedCols, context, strategy);
+        const exceeded = await checkBudget(batch, estimate);
+        if (exceeded) {
+          await pauseForBudget(batchId, exceeded, taskId);
+          await holdJob(job, token);
+        }
+      }
+
+      // Limite de tasks simultâneas por batch
+      const slotLimit = batch?.maxConcurrency || env.MAX_CONCURRENT_PER_BATCH;
+      if (slotLimit > 0) {
+        holdsSlot = await acquireBatchSlot(batchId, taskId, slotLimit);
+        if (!holdsSlot) await holdJob(job, token, BATCH_SLOT_RETRY_MS);
+      }
+
+      // Atualizar status para PROCESSING
+      await db.updateTaskStatus(taskId, 'PROCESSING', {
+        bullJobId: job.id,
+        attempts: attempt,
+      });
 
       // Executar reparo
       const result = await repairTableWithGemini(
@@ -54,24 +137,28 @@ const worker = new Worker<JobPayload>(
         rawHtml,
         expectedCols,
         context,
-        strategy
+        strategy,
+        batch?.auditRules as AuditRules | null
       );
 
       if (result.success) {
-        // Sucesso - atualizar task
-        await db.updateTaskStatus(taskId, 'COMPLETED', {
+        // Sucesso - atualizar task (batches com revisão aguardam aprovação humana)
+        await db.updateTaskStatus(taskId, batch?.requireReview ? 'AWAITING_REVIEW' : 'COMPLETED', {
           repairedHtml: result.repairedHtml,
           provider: result.provider,
+          strategy,
           tokensUsed: result.usage?.totalTokens || 0,
           costBRL: result.costBRL || 0,
         });
 
-        // Incrementar contadores do batch
-        await db.incrementBatchCounters(batchId, {
-          successCount: 1,
-          totalTokensUsed: result.usage?.totalTokens || 0,
-          totalCostBRL: result.costBRL || 0,
-        });
+        // Incrementar contadores do batch (e checar orçamento)
+        await recordSpend(batchId, taskId, result, 1);
+
+        // Sem revisão o reparo já está aceito: entra no RepairCache
+        if (batch && !batch.requireReview) {
+          const task = await db.getTask(taskId);
+          if (task) await storeRepair(batch, task, result.repairedHtml, result.provider ?? null);
+        }
 
         // Log de sucesso
         await db.createLog(batchId, 'INFO', `Table repaired successfully`, {
@@ -92,25 +179,24 @@ const worker = new Worker<JobPayload>(
           tokens: result.usage?.totalTokens,
         });
 
-        return { success: true, taskId };
+        return { success: true, batchId, taskId };
 
       } else {
-        // Falha
-        const task = await db.getTask(taskId);
-        const maxAttempts = task?.maxAttempts || 3;
+        // Falha (tentativas falhas também custam)
+        await recordSpend(batchId, taskId, result, 0);
 
-        if ((attempt + 1) < maxAttempts) {
+        if (attempt < maxAttempts) {
           // Retry
           await db.updateTaskStatus(taskId, 'RETRY', {
             lastError: result.error,
-            nextRetryAt: new Date(Date.now() + Math.pow(2, attempt + 1) * 5000), // Exponential backoff
+            nextRetryAt: new Date(Date.now() + Math.pow(2, attempt - 1) * 5000), // Mesmo backoff da fila
           });
 
           log.warn('Job failed, will retry', {
             jobId: job.id,
             taskId,
             error: result.error,
-            attempt: attempt + 1,
+            attempt,
           });
 
           // Re-throw para BullMQ fazer retry
@@ -118,44 +204,32 @@ const worker = new Worker<JobPayload>(
 
         } else {
           // Max attempts reached
-          await db.updateTaskStatus(taskId, 'FAILED', {
-            lastError: result.error,
-          });
-
-          await db.incrementBatchCounters(batchId, {
-            failedCount: 1,
-          });
-
-          await db.createLog(batchId, 'ERROR', `Table repair failed after ${maxAttempts} attempts`, {
-            taskId,
-            questionIndex,
-            field,
-            metadata: { error: result.error },
-          });
-
-          log.error('Job permanently failed', {
-            jobId: job.id,
-            taskId,
-            error: result.error,
-          });
-
-          return { success: false, taskId, error: result.error };
+          await failTask(job, result.error, maxAttempts);
+          return { success: false, batchId, taskId, error: result.error };
         }
       }
 
     } catch (error: any) {
+      if (error instanceof DelayedError) throw error;
+
       log.error('Job error', {
         jobId: job.id,
         taskId,
         error: error.message,
       });
 
-      // Atualizar task com erro
-      await db.updateTaskStatus(taskId, 'RETRY', {
-        lastError: error.message,
-      });
+      // Atualizar task com erro (na última tentativa o BullMQ não faz mais retry)
+      if (attempt < maxAttempts) {
+        await db.updateTaskStatus(taskId, 'RETRY', {
+          lastError: error.message,
+        });
+      } else {
+        await failTask(job, error.message, maxAttempts);
+      }
 
-      throw error; // BullMQ vai fazer retry
+      throw error;
+    } finally {
+      if (holdsSlot) await releaseBatchSlot(batchId, taskId);
     }
   },
   {
@@ -177,173 +251,27 @@ worker.on('completed', async (job) => {
   await checkBatchCompletion(batchId);
 });
 
-worker.on('failed', (job, error) => {
+worker.on('failed', async (job, error) => {
   log.warn('Job failed event', {
     jobId: job?.id,
     error: error.message,
   });
+
+  // Falha definitiva também pode ser a última task do batch
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    await checkBatchCompletion(job.data.batchId);
+  }
 });
 
 worker.on('error', (error) => {
   log.error('Worker error', { error: error.message });
 });
 
-// Verificar se batch está completo
-async function checkBatchCompletion(batchId: string) {
-  const progress = await db.getBatchProgress(batchId);
-
-  if (!progress) return;
-
-  const isComplete = (progress.completedTasks + progress.failedTasks) >= progress.totalTasks;
-
-  if (isComplete) {
-    log.info('Batch processing complete', {
-      batchId,
-      success: progress.completedTasks,
-      failed: progress.failedTasks,
-    });
-
-    // Gerar arquivo de saída
-    await generateOutputFile(batchId);
-
-    // Atualizar status
-    await db.updateBatchStatus(batchId, 'COMPLETED', 'DONE');
-  }
-}
-
-// Gerar arquivo JSON final
-async function generateOutputFile(batchId: string) {
-  try {
-    const batch = await db.getBatch(batchId);
-    if (!batch) return;
-
-    // Ler arquivo original
-    const originalContent = await import('fs/promises').then(fs =>
-      fs.readFile(batch.inputFilePath, 'utf-8')
-    );
-
-    let originalData: any;
-    try {
-      originalData = JSON.parse(originalContent);
-    } catch {
-      log.error('Failed to parse original file', { batchId });
-      return;
-    }
-
-    const questions = Array.isArray(originalData)
-      ? originalData
-      : (originalData.questoes || []);
-
-    // Buscar tasks completadas
-    const tasksMap = await db.getCompletedTasksGroupedByQuestion(batchId);
-
-    // Aplicar reparos
-    let modifiedCount = 0;
-    for (const [questionIndex, tasks] of tasksMap) {
-      const q = questions[questionIndex];
-      if (!q) continue;
-
-      for (const task of tasks) {
-        if (task.repairedHtml && task.status === 'COMPLETED') {
-          // Aplicar reparo usando domReplace
-          const field = task.field;
-          const originalFieldValue = q[field];
-
-          if (originalFieldValue) {
-            const newValue = domReplace(originalFieldValue, task.repairedHtml, task.tableIndex);
-            if (newValue !== originalFieldValue) {
-              q[field] = newValue;
-              modifiedCount++;
-            }
-          }
-        }
-      }
-    }
-
-    // Salvar arquivo de saída
-    const outputFileName = batch.fileName.replace('.json', '_POS_TABELA.json');
-    const outputDir = env.OUTPUT_DIR;
-    const outputFilePath = `${outputDir}/${Date.now()}_${outputFileName}`;
-
-    await import('fs/promises').then(fs => fs.mkdir(outputDir, { recursive: true }));
-
-    const outputData = Array.isArray(originalData)
-      ? questions
-      : { ...originalData, questoes: questions };
-
-    await import('fs/promises').then(fs =>
-      fs.writeFile(outputFilePath, JSON.stringify(outputData, null, 2))
-    );
-
-    // Atualizar batch com caminho do arquivo
-    await db.setBatchOutputFile(batchId, outputFilePath);
-
-    log.info('Output file generated', {
-      batchId,
-      path: outputFilePath,
-      modifiedQuestions: modifiedCount,
-    });
-
-  } catch (error: any) {
-    log.error('Failed to generate output file', {
-      batchId,
-      error: error.message,
-    });
-  }
-}
-
-// DOM Replace function (preservada do original)
-function domReplace(fullHtml: string, newTableHtml: string, tableIndex: number): string {
-  try {
-    const { JSDOM } = require('jsdom');
-    const dom = new JSDOM(`<body>${fullHtml}</body>`);
-    const doc = dom.window.document;
-    const body = doc.querySelector('body');
-
-    if (!body) return fullHtml;
-
-    // Get all top-level tables
-    const allTables = Array.from(body.querySelectorAll('table')).filter((t: Element) => {
-      let p = t.parentElement;
-      while (p && p !== body) {
-        if (p.tagName === 'TABLE') return false;
-        p = p.parentElement;
-      }
-      return true;
-    }) as Element[];
-
-    if (tableIndex >= allTables.length) {
-      log.warn('Table index out of bounds', { tableIndex, totalTables: allTables.length });
-      return fullHtml;
-    }
-
-    const targetTable = allTables[tableIndex] as Element;
-
-    if (newTableHtml.trim() === '') {
-      // Remove table (CONTENT_SWALLOW case)
-      targetTable.remove();
-    } else {
-      // Replace table
-      const tempDiv = doc.createElement('div');
-      tempDiv.innerHTML = newTableHtml;
-      const newTable = tempDiv.querySelector('table');
-
-      if (newTable) {
-        targetTable.replaceWith(newTable);
-      }
-    }
-
-    return body.innerHTML;
-  } catch (error: any) {
-    log.error('domReplace error', { error: error.message });
-    return fullHtml;
-  }
-}
-
 // Graceful shutdown
 async function shutdown() {
   log.info('Worker shutting down...');
   await worker.close();
+  await closeEvents();
   connection.disconnect();
 }
 
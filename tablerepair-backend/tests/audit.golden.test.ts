@@ -0,0 +1,105 @@
+/**
+ * Golden tests da auditoria: cada fixture de tests/fixtures/tables passa por analyzeTable,
+ * applyRuleFixes e tableToGrid, e o resultado é comparado com tests/golden/tables/<nome>.json.
+ * As questões de tests/fixtures/questions.json passam pelo auditData inteiro.
+ *
+ * Regerar (só quando a mudança de comportamento for intencional):
+ *   UPDATE_GOLDEN=1 npx vitest run tests/audit.golden.test.ts
+ */
+
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeTable, auditData } from '../src/services/auditService.js';
+import { applyRuleFixes } from '../src/services/ruleRepairService.js';
+import { tableToGrid } from '../src/services/diffService.js';
+import type { Issue } from '../src/utils/types.js';
+
+const ROOT = path.dirname(fileURLToPath(import.meta.url));
+const TABLES_DIR = path.join(ROOT, 'fixtures', 'tables');
+const GOLDEN_DIR = path.join(ROOT, 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+// Tipos que o analyzeTable emite; o corpus precisa cobrir todos. BROKEN_ENTITY fica de fora:
+// o teste roda sobre o innerHTML serializado, onde `&` sempre sai como `&amp;`
+const ANALYZE_TABLE_TYPES = [
+  'CONTENT_SWALLOW', 'MARKDOWN_DETECTED', 'INVALID_HTML', 'NO_DATA', 'NESTED_TABLE', 'NO_HEADER',
+  'TABLE_1x1', 'EMPTY_TABLE', 'SPLIT_HEADER', 'HEADER_EMPTY', 'HEADER_LATEX_BROKEN',
+  'HEADER_BROKEN_STYLE', 'MISSING_HEADER_TEXT', 'HEADER_DUP', 'GHOST_COLUMNS', 'GHOST_COLUMN',
+  'COL_MISMATCH', 'SPLIT_CELL', 'AI_LAZY', 'LATEX_BROKEN', 'BROKEN_STYLE_VALUE',
+  'TRUNCATED_CONTENT', 'WHITESPACE_ONLY', 'CELL_HOLE', 'INVALID_ROWSPAN', 'BROKEN_STYLE',
+];
+
+// Tabelas saudáveis do corpus: nenhuma issue
+const HEALTHY_FIXTURES = [
+  'caption-colgroup', 'comments-and-entities', 'financial-whitespace', 'inline-markup', 'media-cells',
+  'thead-tbody', 'thead-without-tbody', 'uppercase-tags',
+];
+
+// `id` é aleatório e `fullText` é só o contexto repassado
+const stripIssue = ({ id, fullText, ...rest }: Issue) => rest;
+
+const matchGolden = (file: string, actual: unknown) => {
+  const goldenPath = path.join(GOLDEN_DIR, file);
+
+  if (UPDATE) {
+    fs.mkdirSync(path.dirname(goldenPath), { recursive: true });
+    fs.writeFileSync(goldenPath, JSON.stringify(actual, null, 2) + '\n');
+    return;
+  }
+
+  expect(fs.existsSync(goldenPath), `missing golden ${file} (run with UPDATE_GOLDEN=1)`).toBe(true);
+  expect(actual).toEqual(JSON.parse(fs.readFileSync(goldenPath, 'utf-8')));
+};
+
+const fixtures = fs.readdirSync(TABLES_DIR)
+  .filter(f => f.endsWith('.html'))
+  .sort()
+  .map(f => ({ name: f.replace(/\.html$/, ''), html: fs.readFileSync(path.join(TABLES_DIR, f), 'utf-8').trim() }));
+
+const auditFixture = (name: string, html: string) =>
+  analyzeTable(html, { qid: name, questionIndex: 0, field: 'enunciado', tableIndex: 0, fullText: html });
+
+describe('analyzeTable golden', () => {
+  it.each(fixtures)('$name', ({ name, html }) => {
+    const issues = auditFixture(name, html).map(stripIssue);
+
+    let ruleFix: unknown;
+    try {
+      ruleFix = applyRuleFixes(html);
+    } catch (error: any) {
+      ruleFix = { error: error.message };
+    }
+
+    let grid: unknown;
+    try {
+      grid = tableToGrid(html);
+    } catch (error: any) {
+      grid = { error: error.message };
+    }
+
+    matchGolden(`tables/${name}.json`, { issues, ruleFix, grid });
+  });
+
+  it('covers every issue type emitted by analyzeTable', () => {
+    const seen = new Set(fixtures.flatMap(({ name, html }) => auditFixture(name, html).map(i => i.type)));
+    expect(ANALYZE_TABLE_TYPES.filter(type => !seen.has(type))).toEqual([]);
+  });
+
+  it.each(HEALTHY_FIXTURES)('healthy table %s has no issues', (name) => {
+    const fixture = fixtures.find(f => f.name === name);
+    expect(fixture, `missing fixture ${name}`).toBeDefined();
+    expect(auditFixture(name, fixture!.html)).toEqual([]);
+  });
+});
+
+describe('auditData golden', () => {
+  it('questions.json', () => {
+    const questions = JSON.parse(fs.readFileSync(path.join(ROOT, 'fixtures', 'questions.json'), 'utf-8'));
+    const { stats, issues } = auditData(questions);
+    const { time, ...counts } = stats;
+
+    matchGolden('questions.json', { stats: counts, issues: issues.map(stripIssue) });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { auditData } from '../src/services/auditService.js';
+import { auditFile, diffBaseline, parseBaseline } from '../src/services/auditBaseline.js';
+import type { AuditBaseline } from '../src/services/auditBaseline.js';
+
+const QUESTIONS = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'questions.json');
+
+const withIssues = (baseline: AuditBaseline, issues: AuditBaseline['issues']): AuditBaseline => ({
+  ...baseline,
+  issues,
+  stats: {
+    ...baseline.stats,
+    bad: issues.filter(i => i.severity === 'BAD').length,
+    warn: issues.filter(i => i.severity === 'WARN').length,
+  },
+});
+
+describe('audit baseline', () => {
+  it('audits the export like auditData', async () => {
+    const baseline = await auditFile(QUESTIONS);
+    const report = auditData(JSON.parse(fs.readFileSync(QUESTIONS, 'utf-8')));
+
+    expect(baseline.stats).toEqual({
+      questions: 6,
+      totalTables: report.stats.totalTables,
+      bad: report.stats.bad,
+      warn: report.stats.warn,
+    });
+    expect(baseline.issues.map(i => [i.questionIndex, i.type, i.title]))
+      .toEqual(report.issues.map(i => [i.questionIndex, i.type, i.title]));
+  });
+
+  it('reports no change against itself (round trip)', async () => {
+    const baseline = await auditFile(QUESTIONS);
+    const saved = parseBaseline(JSON.stringify(baseline));
+
+    const diff = diffBaseline(saved, await auditFile(QUESTIONS));
+    expect(diff.changed).toBe(false);
+    expect(diff.unchanged).toBe(baseline.issues.length);
+  });
+
+  it('lists added and removed issues and the per-type delta', async () => {
+    const baseline = await auditFile(QUESTIONS);
+    const [first, ...rest] = baseline.issues;
+    const extra = { ...first, type: 'NEW_RULE', title: 'New rule' };
+
+    const diff = diffBaseline(baseline, withIssues(baseline, [...rest, extra]));
+
+    expect(diff.changed).toBe(true);
+    expect(diff.added).toEqual([extra]);
+    expect(diff.removed).toEqual([first]);
+    expect(diff.byType).toEqual(expect.arrayContaining([
+      { type: 'NEW_RULE', baseline: 0, current: 1, delta: 1 },
+      expect.objectContaining({ type: first.type, delta: -1 }),
+    ]));
+  });
+
+  it('counts repeated issues once per occurrence', async () => {
+    const baseline = await auditFile(QUESTIONS);
+    const duplicated = withIssues(baseline, [...baseline.issues, baseline.issues[0]]);
+
+    const diff = diffBaseline(baseline, duplicated);
+    expect(diff.added).toEqual([baseline.issues[0]]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it('rejects files that are not baselines', () => {
+    expect(() => parseBaseline('{"issues": []}')).toThrow('Unsupported baseline');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTable } from '../src/services/auditService.js';
+import { auditRulesSchema, compileAuditRules, mergeAuditRules } from '../src/services/auditRules.js';
+import type { AuditRules } from '../src/utils/types.js';
+
+const audit = (html: string, rules?: AuditRules) =>
+  analyzeTable(html, { qid: 'q1', questionIndex: 0, field: 'enunciado', tableIndex: 0, fullText: html }, compileAuditRules(rules))
+    .map(i => `${i.severity}:${i.type}`);
+
+const HEADER_DUP = '<table><tr><th>Valor</th><th>valor</th><th>Ano</th></tr><tr><td>1</td><td>2</td><td>2020</td></tr></table>';
+const LAZY = '<table><tr><th>Ano</th><th>Nota</th></tr><tr><td>2020</td><td>[completar depois]</td></tr></table>';
+
+describe('audit rules', () => {
+  it('matches the default auditor without configuration', () => {
+    expect(audit(HEADER_DUP, {})).toEqual(audit(HEADER_DUP));
+    expect(audit(HEADER_DUP)).toEqual(['BAD:HEADER_DUP']);
+  });
+
+  it('drops disabled and IGNORE types and overrides severities', () => {
+    expect(audit(HEADER_DUP, { rules: { HEADER_DUP: { severity: 'IGNORE' } } })).toEqual([]);
+    expect(audit(HEADER_DUP, { rules: { HEADER_DUP: { enabled: false } } })).toEqual([]);
+    expect(audit(HEADER_DUP, { rules: { HEADER_DUP: { severity: 'WARN' } } })).toEqual(['WARN:HEADER_DUP']);
+  });
+
+  it('extends keyword lists', () => {
+    expect(audit(LAZY)).not.toContain('BAD:AI_LAZY');
+    expect(audit(LAZY, { keywords: { aiLazy: ['completar'] } })).toContain('BAD:AI_LAZY');
+
+    const swallow = '<table><tr><th>Quadro Resumo</th><th>Ano</th></tr><tr><td>1</td><td>2020</td></tr></table>';
+    expect(audit(swallow, { keywords: { contentSwallow: ['Quadro Resumo'] } })).toContain('BAD:CONTENT_SWALLOW');
+  });
+
+  it('rejects unknown issue types', () => {
+    expect(auditRulesSchema.safeParse({ rules: { NOT_A_TYPE: { enabled: false } } }).success).toBe(false);
+    expect(auditRulesSchema.safeParse({ rules: { AI_LAZY: { severity: 'WARN' } } }).success).toBe(true);
+  });
+
+  it('merges upload overrides over a profile', () => {
+    const merged = mergeAuditRules(
+      { rules: { HEADER_DUP: { severity: 'BAD' }, AI_LAZY: { enabled: false } }, keywords: { aiLazy: ['a'] } },
+      { rules: { HEADER_DUP: { severity: 'IGNORE' } }, keywords: { aiLazy: ['a', 'b'], financialHeaders: ['passivo'] } }
+    );
+
+    expect(merged).toEqual({
+      rules: { HEADER_DUP: { severity: 'IGNORE' }, AI_LAZY: { enabled: false } },
+      keywords: { aiLazy: ['a', 'b'], financialHeaders: ['passivo'] },
+    });
+    expect(mergeAuditRules(null, undefined)).toBeNull();
+  });
+});
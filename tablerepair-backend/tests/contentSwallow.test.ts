@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTable } from '../src/services/auditService.js';
+import { compileAuditRules } from '../src/services/auditRules.js';
+import { extractSwallowedContent } from '../src/services/ruleRepairService.js';
+
+const context = { qid: 'q1', questionIndex: 0, field: 'resolucao', tableIndex: 0, fullText: '' };
+
+describe('CONTENT_SWALLOW extraction', () => {
+  it('moves layout blocks out and keeps the real data as a table', () => {
+    const html = '<table><tr><th>Ano</th><th>Valor</th></tr><tr><td>2020</td><td>10</td></tr>' +
+      '<tr><td colspan="2"><div class="mnemonica-box">LIMPE</div><p>Estratégia #2: revise</p></td></tr></table>';
+
+    const result = extractSwallowedContent(html, context);
+
+    expect(result.html).toBe(
+      '<table><tbody><tr><th>Ano</th><th>Valor</th></tr><tr><td>2020</td><td>10</td></tr></tbody></table>' +
+      '<div class="mnemonica-box">LIMPE</div><p>Estratégia #2: revise</p>'
+    );
+    expect(result.moved).toEqual(['LIMPE', 'Estratégia #2: revise']);
+    expect(result.tableIssues).toEqual([]);
+    expect(result.remaining).toEqual([]);
+  });
+
+  it('drops a table left without data but keeps its text', () => {
+    const html = '<table><tr><th>Dica</th></tr><tr><td>Armadilha #1: não confunda juros simples com compostos</td></tr></table>';
+    const result = extractSwallowedContent(html, context);
+
+    expect(result.html).toBe('<p>Dica</p><p>Armadilha #1: não confunda juros simples com compostos</p>');
+    expect(result.applied).toEqual(['CONTENT_SWALLOW: moved 1 block(s) out of the table, table had no data left and was removed']);
+  });
+
+  it('uses the batch keywords and reports issues of the kept table', () => {
+    const rules = compileAuditRules({ keywords: { contentSwallow: ['Quadro Resumo'] } });
+    const html = '<table><tr><th>Ano</th><th>ano</th></tr><tr><td>1</td><td>2</td></tr><tr><td>Quadro Resumo: x</td><td></td></tr></table>';
+
+    expect(analyzeTable(html, context, rules).map(i => i.type)).toEqual(['CONTENT_SWALLOW']);
+
+    const result = extractSwallowedContent(html, context, rules);
+    expect(result.moved).toEqual(['Quadro Resumo: x']);
+    expect(result.tableIssues).toEqual(['HEADER_DUP']);
+  });
+
+  it('leaves tables without extractable blocks for the AI', () => {
+    const html = '<table class="mnemonica-box"><tr><td>a</td></tr></table>';
+    expect(extractSwallowedContent(html, context).changed).toBe(false);
+  });
+});
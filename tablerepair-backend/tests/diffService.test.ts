@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { diffGrids, renderDiffHtml, tableToGrid } from '../src/services/diffService.js';
+
+const TABLE = '<table><tr><th>Ano</th><th>Valor</th></tr><tr><td>2020</td><td>10</td></tr><tr><td>2021</td><td>12</td></tr></table>';
+// Mesma tabela com uma coluna vazia no meio
+const GHOST = '<table><tr><th>Ano</th><th></th><th>Valor</th></tr><tr><td>2020</td><td></td><td>10</td></tr><tr><td>2021</td><td></td><td>12</td></tr></table>';
+
+const diff = (original: string, repaired: string) => diffGrids(tableToGrid(original), tableToGrid(repaired));
+
+describe('table diff', () => {
+  it('reports identical tables regardless of markup and whitespace', () => {
+    const repaired = '<table>\n<thead><tr><th>Ano</th><th> Valor </th></tr></thead>'
+      + '<tbody><tr><td>2020</td><td><b>10</b></td></tr><tr><td>2021</td><td>12</td></tr></tbody></table>';
+    const result = diff(TABLE, repaired);
+
+    expect(result.cells).toEqual([]);
+    expect(result.summary).toEqual({
+      rowsAdded: 0, rowsRemoved: 0, columnsAdded: 0, columnsRemoved: 0, cellsChanged: 0, identical: true,
+    });
+  });
+
+  it('reports a changed cell with its position in both tables', () => {
+    const result = diff(TABLE, TABLE.replace('12', '13'));
+
+    expect(result.cells).toEqual([
+      { kind: 'text', original: { row: 2, col: 1 }, repaired: { row: 2, col: 1 }, before: '12', after: '13' },
+    ]);
+    expect(result.summary.cellsChanged).toBe(1);
+    expect(result.summary.identical).toBe(false);
+  });
+
+  it('reports span changes', () => {
+    const result = diff(
+      '<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>',
+      '<table><tr><th colspan="2">A</th></tr><tr><td>1</td><td>2</td></tr></table>',
+    );
+
+    expect(result.cells).toContainEqual(
+      { kind: 'colspan', original: { row: 0, col: 0 }, repaired: { row: 0, col: 0 }, before: 1, after: 2 },
+    );
+    expect(result.rows).toEqual({ added: [], removed: [] });
+  });
+
+  it('aligns added and removed rows', () => {
+    const added = diff(TABLE, TABLE.replace('</table>', '<tr><td>2022</td><td>15</td></tr></table>'));
+    expect(added.rows).toEqual({ added: [3], removed: [] });
+    expect(added.cells).toEqual([]);
+
+    const removed = diff(TABLE, TABLE.replace('<tr><td>2020</td><td>10</td></tr>', ''));
+    expect(removed.rows).toEqual({ added: [], removed: [1] });
+    expect(removed.cells).toEqual([]);
+  });
+
+  it('aligns added and removed columns', () => {
+    const removed = diff(GHOST, TABLE);
+    expect(removed.columns).toEqual({ added: [], removed: [1] });
+    expect(removed.rows).toEqual({ added: [], removed: [] });
+    expect(removed.cells).toEqual([]);
+
+    const filled = GHOST.replace('<th></th>', '<th>Fonte</th>').replaceAll('<td></td>', '<td>IBGE</td>');
+    const added = diff(TABLE, filled);
+    expect(added.columns).toEqual({ added: [1], removed: [] });
+    expect(added.summary.columnsAdded).toBe(1);
+  });
+
+  it('renders the changes inline', () => {
+    const original = tableToGrid(TABLE);
+    const repaired = tableToGrid(TABLE.replace('12', '13').replace('</table>', '<tr><td>2022</td><td>15</td></tr></table>'));
+    const html = renderDiffHtml(original, repaired, diffGrids(original, repaired));
+
+    expect(html).toContain('<del>12</del> <ins>13</ins>');
+    expect(html).toContain('class="diff-added"');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Paridade do utils/dom.ts com o jsdom (que continua como devDependency só para isto e
+ * para o benchmark): mesma árvore, mesmos resultados de seletor, mesma serialização.
+ */
+
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { JSDOM } from 'jsdom';
+import { decodeHtmlEntities, parseHtml } from '../src/utils/dom.js';
+
+const TABLES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'tables');
+
+// Seletores usados pelos serviços
+const SELECTORS = [
+  'table', 'tr', 'thead', 'tbody', 'th, td', 'td, th', '[rowspan]', '[style]', 'td table, th table',
+  'img, svg, canvas, video, audio, iframe, math',
+];
+const SCOPED_SELECTORS = [':scope > tr', ':scope > td, :scope > th'];
+
+// O `:scope` do nwsapi (engine de seletores do jsdom) erra em elementos sem id quando há
+// tabela aninhada; aqui vale a especificação (teste dedicado abaixo)
+const JSDOM_SCOPE_BUG = new Set(['nested-table', 'nested-table-header']);
+
+type AnyElement = {
+  outerHTML: string;
+  innerHTML: string;
+  textContent: string | null;
+  tagName: string;
+  querySelectorAll(selector: string): ArrayLike<AnyElement>;
+};
+
+const describeElements = (elements: ArrayLike<AnyElement>) =>
+  Array.from(elements).map(el => ({
+    tagName: el.tagName,
+    outerHTML: el.outerHTML,
+    innerHTML: el.innerHTML,
+    textContent: el.textContent,
+  }));
+
+const snapshot = (doc: { querySelectorAll(selector: string): ArrayLike<AnyElement> }, scoped: boolean) => ({
+  selectors: SELECTORS.map(s => describeElements(doc.querySelectorAll(s))),
+  scoped: scoped
+    ? Array.from(doc.querySelectorAll('table, tr')).map(el =>
+      SCOPED_SELECTORS.map(s => describeElements(el.querySelectorAll(s)))
+    )
+    : [],
+});
+
+const fixtures = fs.readdirSync(TABLES_DIR)
+  .filter(f => f.endsWith('.html'))
+  .sort()
+  .map(f => ({ name: f.replace(/\.html$/, ''), html: fs.readFileSync(path.join(TABLES_DIR, f), 'utf-8').trim() }));
+
+describe('dom parity with jsdom', () => {
+  it.each(fixtures)('$name', ({ name, html }) => {
+    const scoped = !JSDOM_SCOPE_BUG.has(name);
+    const expected = snapshot(new JSDOM(html).window.document as any, scoped);
+    expect(snapshot(parseHtml(html), scoped)).toEqual(expected);
+  });
+
+  it('matches :scope > only against direct children', () => {
+    const table = parseHtml('<table><tr><th><table><tr><td>h</td></tr></table></th><th>B</th></tr></table>').querySelector('table')!;
+    const row = table.querySelector('tr')!;
+
+    expect(row.querySelectorAll(':scope > td, :scope > th').map(c => c.textContent)).toEqual(['h', 'B']);
+    expect(row.querySelectorAll('td, th').map(c => c.textContent)).toEqual(['h', 'h', 'B']);
+    expect(table.querySelectorAll(':scope > tr')).toEqual([]);
+  });
+
+  it('replaces a top-level table like domReplace', () => {
+    const fullHtml = '<p>Antes</p><table><tr><td>velha</td></tr></table><div><table><tr><td>2</td></tr></table></div>';
+    const newTable = '<table><tr><th>A</th></tr><tr><td>nova &amp; ok</td></tr></table>';
+
+    const run = (doc: any) => {
+      const body = doc.querySelector('body');
+      const target = body.querySelectorAll('table')[0];
+      const tempDiv = doc.createElement('div');
+      tempDiv.innerHTML = newTable;
+      target.replaceWith(tempDiv.querySelector('table'));
+      body.querySelectorAll('table')[1].remove();
+      return body.innerHTML;
+    };
+
+    const html = `<body>${fullHtml}</body>`;
+    expect(run(parseHtml(html))).toBe(run(new JSDOM(html).window.document));
+  });
+
+  it('lists children and inserts markup around an element', () => {
+    const run = (doc: any) => {
+      const body = doc.querySelector('body');
+      const cell = body.querySelector('td');
+      const children = Array.from(cell.children as ArrayLike<any>).map(c => c.tagName);
+      const table = body.querySelector('table');
+      table.insertAdjacentHTML('afterend', '<div class="mnemonica-box">x</div>texto<p>y</p>');
+      table.insertAdjacentHTML('beforebegin', '<p>antes</p>');
+      cell.remove();
+      return { children, html: body.innerHTML };
+    };
+
+    const html = '<body><table><tr><td>a <b>b</b> <div>c</div></td></tr></table><p>depois</p></body>';
+    expect(run(parseHtml(html))).toEqual(run(new JSDOM(html).window.document));
+  });
+
+  it('walks siblings and appends rows like the DOM', () => {
+    const run = (doc: any) => {
+      const body = doc.querySelector('body');
+      const siblings: string[] = [];
+      for (let n = body.querySelector('table').nextSibling; n; n = n.nextSibling) {
+        siblings.push(n.tagName ?? JSON.stringify(n.nodeValue));
+      }
+      const [first, second] = body.querySelectorAll('table');
+      const before: string[] = [];
+      for (let n = second.previousSibling; n; n = n.previousSibling) {
+        before.push(n.tagName ?? JSON.stringify(n.nodeValue));
+      }
+      first.querySelector('tbody').insertAdjacentHTML('beforeend', second.querySelector('tbody').innerHTML);
+      second.remove();
+      return { siblings, before, html: body.innerHTML };
+    };
+
+    const html = '<body><table><tr><td>1</td></tr></table> \n<!-- x --><table><tr><td>2</td></tr></table><p>fim</p></body>';
+    expect(run(parseHtml(html))).toEqual(run(new JSDOM(html).window.document));
+  });
+
+  it('edits attributes and text nodes in place', () => {
+    const html = '<table><tr><td rowspan="4" style="x">a &amp;hellip b</td><td>c</td></tr></table>';
+    const table = parseHtml(html).querySelector('table')!;
+    const cell = table.querySelector('td')!;
+
+    cell.setAttribute('rowspan', '2');
+    cell.removeAttribute('style');
+    for (const node of table.textNodes()) node.nodeValue = node.nodeValue.toUpperCase();
+    table.querySelectorAll('td')[1].setAttribute('colspan', '2');
+
+    expect(table.outerHTML).toBe('<table><tbody><tr><td rowspan="2">A &amp;HELLIP B</td><td colspan="2">C</td></tr></tbody></table>');
+    expect(table.contains(cell)).toBe(true);
+    expect(cell.contains(table)).toBe(false);
+    expect(cell.parentElement?.tagName).toBe('TR');
+  });
+
+  it('decodes entities like a textarea', () => {
+    expect(decodeHtmlEntities('&hellip;')).toBe('…');
+    expect(decodeHtmlEntities('&nbsp;')).toBe(' ');
+    expect(decodeHtmlEntities('&naoexiste;')).toBe('&naoexiste;');
+  });
+
+  it('rejects unsupported selectors', () => {
+    expect(() => parseHtml('<p></p>').querySelector('p:first-child')).toThrow('Unsupported selector');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { auditData } from '../src/services/auditService.js';
+import {
+  compileFieldPaths,
+  expandFieldPaths,
+  getFieldValue,
+  isValidFieldPath,
+  parseFieldPath,
+  setFieldValue,
+} from '../src/utils/fieldPaths.js';
+
+const BROKEN = '<table><tr><th>Coluna 1</th><th>Valor</th></tr><tr><td></td><td>10</td></tr></table>';
+
+const question = () => ({
+  id: 7,
+  enunciado: 'Veja a tabela',
+  comentario: { texto: BROKEN },
+  alternativas: [{ texto: 'A' }, { texto: 3 }, { texto: BROKEN }],
+});
+
+describe('field paths', () => {
+  it('parses object keys, array indexes and wildcards', () => {
+    expect(parseFieldPath('alternativas[*].texto')).toEqual(['alternativas', '*', 'texto']);
+    expect(parseFieldPath('a.b[0][1].c')).toEqual(['a', 'b', 0, 1, 'c']);
+    expect(isValidFieldPath('enunciado')).toBe(true);
+    expect(isValidFieldPath('a..b')).toBe(false);
+    expect(isValidFieldPath('a[x]')).toBe(false);
+    expect(() => parseFieldPath('a[')).toThrow('Invalid field path: "a["');
+  });
+
+  it('expands patterns into concrete paths with string values', () => {
+    const q = question();
+    const found = expandFieldPaths(q, compileFieldPaths([
+      'enunciado', 'alternativas[*].texto', 'comentario.texto', 'alternativas[2].texto', 'nao_existe.x',
+    ]));
+
+    expect(found.map(f => f.path)).toEqual([
+      'enunciado', 'alternativas[0].texto', 'alternativas[2].texto', 'comentario.texto',
+    ]);
+    expect(getFieldValue(q, 'alternativas[2].texto')).toBe(BROKEN);
+    expect(getFieldValue(q, 'alternativas[9].texto')).toBeUndefined();
+  });
+
+  it('writes back only to existing paths', () => {
+    const q = question();
+
+    expect(setFieldValue(q, 'alternativas[2].texto', 'novo')).toBe(true);
+    expect(setFieldValue(q, 'enunciado', 'x')).toBe(true);
+    expect(setFieldValue(q, 'alternativas[5].texto', 'y')).toBe(false);
+    expect(setFieldValue(q, 'comentario.autor', 'y')).toBe(false);
+    expect(q.alternativas[2].texto).toBe('novo');
+    expect(q.enunciado).toBe('x');
+    expect(q.comentario).toEqual({ texto: BROKEN });
+  });
+
+  it('audits the configured fields with the path in issue.field', () => {
+    const fields = (issues: ReturnType<typeof auditData>['issues']) => [...new Set(issues.map(i => i.field))];
+
+    expect(auditData([question()]).issues).toEqual([]);
+    expect(fields(auditData([question()], null, ['alternativas[*].texto', 'comentario.texto']).issues))
+      .toEqual(['alternativas[2].texto', 'comentario.texto']);
+    expect(fields(auditData([{ enunciado: BROKEN }], null, []).issues)).toEqual(['enunciado']);
+  });
+});
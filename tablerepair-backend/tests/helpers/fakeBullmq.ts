@@ -0,0 +1,130 @@
+// BullMQ em memória: estados dos jobs como no BullMQ (prioridade > 0 fica em "prioritized")
+
+type JobState = 'waiting' | 'prioritized' | 'delayed' | 'active' | 'completed' | 'failed';
+
+interface JobOpts {
+  jobId?: string;
+  priority?: number;
+  delay?: number;
+  attempts?: number;
+}
+
+export class Job<T = any> {
+  id: string;
+  state: JobState;
+  attemptsMade = 0;
+
+  constructor(public queue: Queue<T>, public name: string, public data: T, public opts: JobOpts) {
+    this.id = opts.jobId ?? String(queue.jobs.size + 1);
+    this.state = opts.delay ? 'delayed' : opts.priority ? 'prioritized' : 'waiting';
+  }
+
+  async remove(): Promise<void> {
+    if (this.state === 'active') throw new Error(`Job ${this.id} could not be removed because it is locked by another worker`);
+    this.queue.jobs.delete(this.id);
+  }
+
+  async changePriority({ priority }: { priority: number }): Promise<void> {
+    this.opts = { ...this.opts, priority };
+    if (this.state === 'prioritized' || this.state === 'waiting') this.state = priority ? 'prioritized' : 'waiting';
+  }
+
+  async promote(): Promise<void> {
+    this.state = this.opts.priority ? 'prioritized' : 'waiting';
+  }
+}
+
+export class Queue<T = any> {
+  static instances: Queue[] = [];
+
+  jobs = new Map<string, Job<T>>();
+
+  constructor(public name: string, public options?: unknown) {
+    Queue.instances.push(this);
+  }
+
+  async add(name: string, data: T, opts: JobOpts = {}): Promise<Job<T>> {
+    const defaults = (this.options as { defaultJobOptions?: JobOpts } | undefined)?.defaultJobOptions;
+    const job = new Job(this, name, data, { ...defaults, ...opts });
+    if (this.jobs.has(job.id)) return this.jobs.get(job.id)!; // jobId repetido é ignorado
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async addBulk(jobs: Array<{ name: string; data: T; opts?: JobOpts }>): Promise<Job<T>[]> {
+    return Promise.all(jobs.map(j => this.add(j.name, j.data, j.opts)));
+  }
+
+  async getJob(id: string): Promise<Job<T> | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobs(states: JobState[]): Promise<Job<T>[]> {
+    return [...this.jobs.values()].filter(j => states.includes(j.state));
+  }
+
+  // Ordem de execução: menor prioridade primeiro, FIFO entre iguais
+  async getPrioritized(start = 0, end = -1): Promise<Job<T>[]> {
+    const sorted = [...this.jobs.values()]
+      .filter(j => j.state === 'prioritized')
+      .sort((a, b) => (a.opts.priority ?? 0) - (b.opts.priority ?? 0));
+    return sorted.slice(start, end < 0 ? undefined : end + 1);
+  }
+
+  // Simula um worker pegando o próximo job
+  async takeNext(): Promise<Job<T> | undefined> {
+    const waiting = [...this.jobs.values()].find(j => j.state === 'waiting');
+    const next = waiting ?? (await this.getPrioritized(0, 0))[0];
+    if (next) next.state = 'active';
+    return next;
+  }
+
+  reset(): void {
+    this.jobs.clear();
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class QueueEvents {
+  static instances: QueueEvents[] = [];
+
+  listeners = new Map<string, Array<(args: any) => unknown>>();
+
+  constructor(public name: string, public options?: unknown) {
+    QueueEvents.instances.push(this);
+  }
+
+  on(event: string, listener: (args: any) => unknown): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  // Dispara o evento e espera os listeners (que são async)
+  async emit(event: string, args: unknown): Promise<void> {
+    await Promise.all((this.listeners.get(event) ?? []).map(listener => listener(args)));
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class DelayedError extends Error {}
+
+// Worker sem loop: o teste chama `processor` com o job, como o BullMQ faria
+export class Worker<T = any> {
+  static instances: Worker[] = [];
+
+  constructor(
+    public name: string,
+    public processor: (job: Job<T>, token?: string) => Promise<unknown>,
+    public options?: unknown,
+  ) {
+    Worker.instances.push(this);
+  }
+
+  on(): this {
+    return this;
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,131 @@
+// ioredis em memória: só os comandos usados por config/queue.ts (não há Redis nos testes)
+
+type ZSet = Map<string, number>;
+
+export class FakeRedis {
+  static instances: FakeRedis[] = [];
+
+  strings = new Map<string, string>();
+  zsets = new Map<string, ZSet>();
+  expiresAt = new Map<string, number>();
+
+  constructor() {
+    FakeRedis.instances.push(this);
+  }
+
+  on(): this {
+    return this;
+  }
+
+  disconnect(): void {}
+
+  reset(): void {
+    this.strings.clear();
+    this.zsets.clear();
+    this.expiresAt.clear();
+  }
+
+  private alive(key: string): void {
+    const at = this.expiresAt.get(key);
+    if (at !== undefined && at <= Date.now()) {
+      this.strings.delete(key);
+      this.zsets.delete(key);
+      this.expiresAt.delete(key);
+    }
+  }
+
+  private zset(key: string): ZSet {
+    this.alive(key);
+    if (!this.zsets.has(key)) this.zsets.set(key, new Map());
+    return this.zsets.get(key)!;
+  }
+
+  async get(key: string): Promise<string | null> {
+    this.alive(key);
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, ...args: (string | number)[]): Promise<'OK' | null> {
+    this.alive(key);
+    if (args.includes('NX') && (this.strings.has(key) || this.zsets.has(key))) return null;
+    this.strings.set(key, value);
+    this.expiresAt.delete(key);
+    const ex = args.indexOf('EX');
+    if (ex >= 0) this.expiresAt.set(key, Date.now() + Number(args[ex + 1]) * 1000);
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    const existed = this.strings.delete(key) || this.zsets.delete(key);
+    this.expiresAt.delete(key);
+    return existed ? 1 : 0;
+  }
+
+  async pexpire(key: string, ms: number): Promise<number> {
+    this.alive(key);
+    if (!this.strings.has(key) && !this.zsets.has(key)) return 0;
+    this.expiresAt.set(key, Date.now() + ms);
+    return 1;
+  }
+
+  async zadd(key: string, ...args: (string | number)[]): Promise<number> {
+    const gt = args[0] === 'GT';
+    const [score, member] = (gt ? args.slice(1) : args) as [number, string];
+    const set = this.zset(key);
+    const current = set.get(member);
+    if (gt && current !== undefined && current >= Number(score)) return 0;
+    set.set(member, Number(score));
+    return current === undefined ? 1 : 0;
+  }
+
+  async zscore(key: string, member: string): Promise<string | null> {
+    const score = this.zset(key).get(member);
+    return score === undefined ? null : String(score);
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.zset(key).delete(member) ? 1 : 0;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.zset(key).size;
+  }
+
+  async zremrangebyscore(key: string, min: string | number, max: string | number): Promise<number> {
+    const lo = min === '-inf' ? -Infinity : Number(min);
+    const hi = max === '+inf' ? Infinity : Number(max);
+    const set = this.zset(key);
+    let removed = 0;
+    for (const [member, score] of set) {
+      if (score >= lo && score <= hi) {
+        set.delete(member);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // MULTI: enfileira os comandos e roda em ordem no exec
+  multi() {
+    const commands: Array<() => Promise<unknown>> = [];
+    const chain: any = new Proxy({}, {
+      get: (_, name: string) => {
+        if (name === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const run of commands) results.push([null, await run()]);
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          commands.push(() => (this as any)[name](...args));
+          return chain;
+        };
+      },
+    });
+    return chain;
+  }
+}
+
+export default FakeRedis;
+export { FakeRedis as Redis };
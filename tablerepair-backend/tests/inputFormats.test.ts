@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { detectInputFormat, getInputAdapter, outputFileName } from '../src/services/inputFormats/index.js';
+import { readZip, writeZip, ZIP_LIMITS } from '../src/services/inputFormats/zipArchive.js';
+import type { InputFormat, Question } from '../src/utils/types.js';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'input-formats-'));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const readAll = async (format: InputFormat, filePath: string): Promise<Question[]> => {
+  const questions: Question[] = [];
+  for await (const q of getInputAdapter(format).readQuestions(filePath)) questions.push(q);
+  return questions;
+};
+
+// Lê, troca o enunciado da primeira questão e grava no mesmo formato
+const roundTrip = async (format: InputFormat, name: string, content: string | Buffer) => {
+  const input = path.join(dir, name);
+  const output = path.join(dir, outputFileName(name));
+  await fs.writeFile(input, content);
+
+  const questions = await readAll(format, input);
+  const repaired = [{ ...questions[0], enunciado: '<table><tr><td>ok</td></tr></table>' }, ...questions.slice(1)];
+  await getInputAdapter(format).writeQuestions(input, output, repaired);
+  return { questions, output };
+};
+
+const entry = (name: string, text: string) =>
+  ({ name, data: Buffer.from(text), modTime: 0, modDate: 0x21, externalAttributes: 0 });
+
+// Reescreve o tamanho descompactado declarado no diretório central (primeira entrada)
+const withDeclaredSize = (zip: Buffer, size: number): Buffer => {
+  const patched = Buffer.from(zip);
+  patched.writeUInt32LE(size, patched.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  return patched;
+};
+
+describe('input formats', () => {
+  it('reads and writes NDJSON line by line', async () => {
+    const { questions, output } = await roundTrip('ndjson', 'p.ndjson', '{"id":1,"enunciado":"a"}\r\n\r\n{"id":2,"enunciado":"b"}');
+
+    expect(questions.map(q => q.id)).toEqual([1, 2]);
+    expect(await fs.readFile(output, 'utf-8'))
+      .toBe('{"id":1,"enunciado":"<table><tr><td>ok</td></tr></table>"}\r\n{"id":2,"enunciado":"b"}\r\n');
+
+    await fs.writeFile(path.join(dir, 'bad.ndjson'), '{"id":1}\n[1]\n');
+    await expect(readAll('ndjson', path.join(dir, 'bad.ndjson'))).rejects.toThrow('Invalid NDJSON file: line 2 is not an object');
+
+    await fs.writeFile(path.join(dir, 'broken.ndjson'), '{"id":1}\r\n{"id":\r\n');
+    await expect(readAll('ndjson', path.join(dir, 'broken.ndjson'))).rejects.toThrow(/^Invalid NDJSON file: line 2 \(/);
+  });
+
+  it('reads and writes CSV keeping columns, delimiter and quoted HTML', async () => {
+    const csv = 'id;enunciado;gabarito\r\n1;"<p class=""x"">a;\r\nb</p>";A\r\n2;texto;B\r\n';
+    const { questions, output } = await roundTrip('csv', 'p.csv', csv);
+
+    expect(questions).toEqual([
+      { id: '1', enunciado: '<p class="x">a;\r\nb</p>', gabarito: 'A' },
+      { id: '2', enunciado: 'texto', gabarito: 'B' },
+    ]);
+    expect(await fs.readFile(output, 'utf-8'))
+      .toBe('id;enunciado;gabarito\r\n1;<table><tr><td>ok</td></tr></table>;A\r\n2;texto;B\r\n');
+
+    await fs.writeFile(path.join(dir, 'bad.csv'), 'id,enunciado\n1,"aberto\n');
+    await expect(readAll('csv', path.join(dir, 'bad.csv'))).rejects.toThrow('Invalid CSV file: unterminated quoted field');
+
+    await fs.writeFile(path.join(dir, 'wide.csv'), 'id,enunciado\r\n1,a\r\n2,b,sobra\r\n');
+    await expect(readAll('csv', path.join(dir, 'wide.csv'))).rejects.toThrow('Invalid CSV file: row 2 has 3 fields, header has 2');
+  });
+
+  it('keeps the other keys of the JSON { questoes } wrapper', async () => {
+    const json = JSON.stringify({ prova: 'ENEM', ano: 2020, questoes: [{ id: 1, enunciado: 'a' }, { id: 2 }], fim: true });
+    const { questions, output } = await roundTrip('json', 'p.json', json);
+
+    expect(questions).toEqual([{ id: 1, enunciado: 'a' }, { id: 2 }]);
+    expect(JSON.parse(await fs.readFile(output, 'utf-8'))).toEqual({
+      prova: 'ENEM',
+      ano: 2020,
+      questoes: [{ id: 1, enunciado: '<table><tr><td>ok</td></tr></table>' }, { id: 2 }],
+      fim: true,
+    });
+  });
+
+  it('reads and writes a ZIP with the same file layout', async () => {
+    const zip = writeZip([
+      entry('provas/', ''),
+      entry('provas/a.json', '{"prova":"A","questoes":[{"id":1,"enunciado":"x"}]}'),
+      entry('provas/b.csv', 'id,enunciado\n2,y\n3,z\n'),
+      entry('LEIAME.txt', 'não é questão'),
+    ]);
+    const { questions, output } = await roundTrip('zip', 'pacote.zip', zip);
+
+    expect(questions.map(q => q.id)).toEqual([1, '2', '3']);
+
+    const entries = readZip(await fs.readFile(output));
+    expect(entries.map(e => e.name)).toEqual(['provas/', 'provas/a.json', 'provas/b.csv', 'LEIAME.txt']);
+    expect(JSON.parse(entries[1].data.toString())).toEqual({
+      prova: 'A',
+      questoes: [{ id: 1, enunciado: '<table><tr><td>ok</td></tr></table>' }],
+    });
+    expect(entries[2].data.toString()).toBe('id,enunciado\n2,y\n3,z\n');
+    expect(entries[3].data.toString()).toBe('não é questão');
+    expect(entries[3].modDate).toBe(0x21);
+
+    await fs.writeFile(path.join(dir, 'bad.zip'), writeZip([entry('q.ndjson', '{"id":1}\nnope\n')]));
+    await expect(readAll('zip', path.join(dir, 'bad.zip'))).rejects.toThrow(/^q\.ndjson: Invalid NDJSON file: line 2/);
+
+    await fs.writeFile(path.join(dir, 'empty.zip'), writeZip([entry('LEIAME.txt', 'x'), entry('img/a.png', 'png')]));
+    await expect(readAll('zip', path.join(dir, 'empty.zip'))).rejects.toThrow('Invalid ZIP file: no question files');
+  });
+
+  it('rejects ZIP entries whose data does not match the declared size', () => {
+    const zip = writeZip([entry('q.json', JSON.stringify([{ id: 1, enunciado: 'x'.repeat(1000) }]))]);
+    const size = readZip(zip)[0].data.length;
+
+    // Menor que os dados: a descompactação para no tamanho declarado
+    expect(() => readZip(withDeclaredSize(zip, 10))).toThrow('Invalid ZIP file: q.json is corrupted (size mismatch)');
+    expect(() => readZip(withDeclaredSize(zip, size + 1))).toThrow('Invalid ZIP file: q.json is corrupted (size mismatch)');
+  });
+
+  it('limits the uncompressed size per entry and in total', () => {
+    const zip = writeZip([entry('a.json', '[' + '{},'.repeat(2000) + '{}]'), entry('b.json', '[{}]')]);
+    const limits = { maxEntrySize: 8000, maxTotalSize: 8000 };
+
+    expect(readZip(zip, limits)).toHaveLength(2);
+    expect(() => readZip(zip, { ...limits, maxEntrySize: 4 * 1024 })).toThrow('Invalid ZIP file: a.json exceeds 0 MB uncompressed');
+    expect(() => readZip(zip, { ...limits, maxTotalSize: 6004 })).toThrow('Invalid ZIP file: contents exceed 0 MB uncompressed');
+    // Header adulterado não escapa do limite
+    expect(() => readZip(withDeclaredSize(zip, ZIP_LIMITS.maxEntrySize + 1)))
+      .toThrow('Invalid ZIP file: a.json exceeds 256 MB uncompressed');
+  });
+
+  it('detects the format by extension, then by content', () => {
+    const zipHead = writeZip([entry('q.json', '[]')]).subarray(0, 16);
+
+    expect(detectInputFormat('prova.JSONL', Buffer.from('{}'))).toBe('ndjson');
+    expect(detectInputFormat('prova.csv', Buffer.from('id,enunciado'))).toBe('csv');
+    expect(detectInputFormat('upload', zipHead)).toBe('zip');
+    expect(detectInputFormat('upload.bin', Buffer.from('\uFEFF [{}]'))).toBe('json');
+    expect(detectInputFormat('upload.txt', Buffer.from('id,enunciado'))).toBeNull();
+    expect(getInputAdapter('zip').sniff(Buffer.from('[]'))).toBe(false);
+    expect(outputFileName('prova.csv')).toBe('prova_POS_TABELA.csv');
+    expect(outputFileName('upload')).toBe('upload_POS_TABELA');
+    expect(outputFileName('provas.2020.zip')).toBe('provas.2020_POS_TABELA.zip');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertMarkdownTable,
+  countMarkdownColumns,
+  findMarkdownTables,
+  parseMarkdownTable,
+  spliceMarkdownTables,
+} from '../src/services/markdownTableService.js';
+import { analyzeTable } from '../src/services/auditService.js';
+import { applyRuleFixes, autoFixMarkdownTable } from '../src/services/ruleRepairService.js';
+
+const context = { qid: 'q1', questionIndex: 0, field: 'resolucao', tableIndex: 0, fullText: '' };
+
+describe('markdown tables', () => {
+  it('converts alignment into inline styles', () => {
+    const { html } = convertMarkdownTable('| Ano | Receita | Nota |\n| :--- | ---: | :---: |\n| 2020 | 10 | A |');
+
+    expect(html).toBe(
+      '<table><thead><tr><th style="text-align: left;">Ano</th><th style="text-align: right;">Receita</th>' +
+      '<th style="text-align: center;">Nota</th></tr></thead><tbody><tr><td style="text-align: left;">2020</td>' +
+      '<td style="text-align: right;">10</td><td style="text-align: center;">A</td></tr></tbody></table>'
+    );
+    expect(analyzeTable(html!, context)).toEqual([]);
+  });
+
+  it('keeps escaped pipes, inline LaTeX and currency inside cells', () => {
+    const parsed = parseMarkdownTable([
+      'Função | Módulo | Preço',
+      '--- | --- | ---',
+      String.raw`a \| b | $|x| + \|v\|$ | R$ 10 | `,
+      String.raw`\(|y|\) | $$|z|$$ | US$5`,
+    ].join('\n'));
+
+    expect(parsed.table?.rows).toEqual([
+      ['a | b', String.raw`$|x| + \|v\|$`, 'R$ 10'],
+      [String.raw`\(|y|\)`, '$$|z|$$', 'US$5'],
+    ]);
+  });
+
+  it('pads short rows and rejects malformed tables', () => {
+    expect(parseMarkdownTable('| a | b |\n|---|---|\n| 1 |').table?.rows).toEqual([['1', '']]);
+
+    expect(parseMarkdownTable('| a | b |\n|---|').error).toBe('Header has 2 cells, delimiter row has 1');
+    expect(parseMarkdownTable('| a | b |\n|---|---|\n| 1 | 2 | 3 |').error).toBe('Row 1 has 3 cells, header has 2');
+    expect(parseMarkdownTable('| a |\n| : |').error).toMatch(/^Invalid delimiter row/);
+    expect(countMarkdownColumns('| a | b | c |\n|---|')).toBe(3);
+  });
+
+  it('finds every table in a field and splices replacements by position', () => {
+    const field = 'Veja:\n| a | b |\n|---|---|\n| 1 | 2 |\ntexto | solto\n\n  | c |\n  | :-: |\n  | 3 |  \nFim';
+    const blocks = findMarkdownTables(field);
+
+    expect(blocks.map(b => b.markdown)).toEqual(['| a | b |\n|---|---|\n| 1 | 2 |\ntexto | solto', '| c |\n  | :-: |\n  | 3 |']);
+
+    const { text, missing } = spliceMarkdownTables(field, new Map([[1, '<table>C</table>'], [5, '<table>?</table>']]));
+    expect(text).toBe('Veja:\n| a | b |\n|---|---|\n| 1 | 2 |\ntexto | solto\n\n  <table>C</table>  \nFim');
+    expect(missing).toEqual([5]);
+  });
+
+  it('auto-fixes markdown tables and leaves malformed ones for the AI', () => {
+    const fixed = autoFixMarkdownTable('| Ano | Valor |\n|---|---|\n| 2020 | 10 |', context, () => true);
+    expect(fixed.changed).toBe(true);
+    expect(fixed.remaining).toEqual([]);
+
+    const malformed = autoFixMarkdownTable('| Ano | Valor |\n|---|\n| 2020 | 10 |', context, () => true);
+    expect(malformed.changed).toBe(false);
+    expect(malformed.error).toBe('Header has 2 cells, delimiter row has 1');
+  });
+
+  it('unwraps markdown inside a single-cell table', () => {
+    const result = applyRuleFixes('<table><tr><td>| Ano | Valor |\n|---|---|\n| 2020 | 10 |</td></tr></table>');
+
+    expect(result.changed).toBe(true);
+    expect(result.html).toBe('<table><thead><tr><th>Ano</th><th>Valor</th></tr></thead><tbody><tr><td>2020</td><td>10</td></tr></tbody></table>');
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { readTextChunks, scanQuestions, streamQuestionShards } from '../src/services/questionStream.js';
+
+const QUESTIONS = [
+  { id: 1, enunciado: 'Aspas \\"escapadas\\" e barra \\\\ no fim\\\\', alternativas: [{ texto: '[{' }] },
+  { id: 2, enunciado: 'Acentuação, emoji 😀 e \\u00e7', tabela: '<table><tr><td>}]</td></tr></table>' },
+  { id: 3, enunciado: '', alternativas: [] },
+];
+
+async function* chunksOf(text: string, ...sizes: number[]): AsyncGenerator<string> {
+  let i = 0;
+  for (const size of sizes) {
+    yield text.slice(i, i + size);
+    i += size;
+  }
+  if (i < text.length) yield text.slice(i);
+}
+
+const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+  const out: T[] = [];
+  for await (const item of items) out.push(item);
+  return out;
+};
+
+const scan = (text: string, ...sizes: number[]) => collect(scanQuestions(chunksOf(text, ...sizes)));
+
+let tmpDir: string;
+
+beforeAll(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'question-stream-'));
+});
+
+afterAll(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('scanQuestions', () => {
+  it('returns the same questions wherever the chunks are split', async () => {
+    const text = JSON.stringify(QUESTIONS, null, 1);
+    const expected = JSON.parse(text);
+
+    // Inclui cortes no meio de strings, de escapes e de pares surrogate (emoji)
+    for (let cut = 1; cut < text.length; cut++) {
+      expect(await scan(text, cut)).toEqual(expected);
+    }
+    expect(await scan(text, ...Array(text.length).fill(1))).toEqual(expected);
+  });
+
+  it('reads the questions of the { "questoes": [...] } wrapper', async () => {
+    const text = JSON.stringify({
+      meta: { questoes: [{ id: 'meta' }], nome: 'prova' },
+      questoes_extra: [{ id: 'extra' }],
+      questoes: QUESTIONS,
+      depois: [{ id: 'depois' }],
+    });
+
+    for (const cut of [1, 7, 40, text.indexOf('"questoes"') + 4]) {
+      expect(await scan(text, cut)).toEqual(JSON.parse(text).questoes);
+    }
+  });
+
+  it('rejects truncated input', async () => {
+    const text = JSON.stringify(QUESTIONS);
+
+    await expect(scan(text.slice(0, -1))).rejects.toThrow('Invalid JSON file: unexpected end of input');
+    await expect(scan(text.slice(0, text.indexOf('emoji')))).rejects.toThrow('unexpected end of input');
+    await expect(scan('')).rejects.toThrow('unexpected end of input');
+    await expect(scan('[{"id": 1}, {"id": ')).rejects.toThrow('unexpected end of input');
+  });
+
+  it('rejects trailing garbage after the root value', async () => {
+    const text = JSON.stringify(QUESTIONS);
+
+    await expect(scan(`${text} []`)).rejects.toThrow('Invalid JSON file: multiple root values');
+    await expect(scan(`${text}x`)).rejects.toThrow('Invalid JSON file: root must be an array or an object');
+    await expect(scan(`${text}]`)).rejects.toThrow('Invalid JSON file: unexpected closing bracket');
+    await expect(scan(`${text} \r\n`)).resolves.toHaveLength(3);
+  });
+
+  it('reports the index of a question that does not parse', async () => {
+    await expect(scan('[{"id": 1}, {"id": 2,}]')).rejects.toThrow(/^Invalid JSON file: question 1 \(/);
+  });
+});
+
+describe('readTextChunks', () => {
+  it('does not split multi-byte characters across read chunks', async () => {
+    // "ç" (2 bytes) e o emoji (4 bytes) atravessam o limite de 1 MiB do read stream
+    const filler = 'x'.repeat(1024 * 1024 - 30);
+    const questions = [{ id: 1, enunciado: filler }, { id: 2, enunciado: 'ç'.repeat(20) + '😀'.repeat(10) }];
+    const filePath = path.join(tmpDir, 'multibyte.json');
+    await fs.writeFile(filePath, JSON.stringify(questions));
+
+    expect(await collect(scanQuestions(readTextChunks(filePath)))).toEqual(questions);
+  });
+});
+
+describe('streamQuestionShards', () => {
+  it('groups the questions into contiguous shards', async () => {
+    const shards = await collect(streamQuestionShards(scanQuestions(chunksOf(JSON.stringify(QUESTIONS))), 2));
+
+    expect(shards.map(s => [s.startIndex, s.questions.map(q => q.id)])).toEqual([[0, [1, 2]], [2, [3]]]);
+  });
+});
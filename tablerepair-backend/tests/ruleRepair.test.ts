@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { applyRuleFixes } from '../src/services/ruleRepairService.js';
+import { tableToGrid } from '../src/services/diffService.js';
+
+const TABLES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'tables');
+
+const fixture = (name: string): string => fs.readFileSync(path.join(TABLES_DIR, `${name}.html`), 'utf-8').trim();
+
+// Texto das células, linha a linha
+const texts = (html: string): string[][] => tableToGrid(html).rows.map(row => row.map(cell => cell.text));
+
+describe('rule fixes', () => {
+  it('BROKEN_ENTITY: decodes entities missing the semicolon', () => {
+    const fix = applyRuleFixes(fixture('broken-entity'));
+
+    expect(fix.applied).toEqual(['BROKEN_ENTITY: 1 text node(s) decoded']);
+    expect(texts(fix.html)[1]).toEqual(['Fim… de linha', '… e &#']);
+    expect(texts(fix.html)[2]).toEqual(['a', 'b© c']);
+  });
+
+  it('INVALID_ROWSPAN: clamps a rowspan to the rows left in the table', () => {
+    const fix = applyRuleFixes(fixture('invalid-rowspan'));
+
+    expect(fix.applied).toEqual(['INVALID_ROWSPAN: rowspan 9 -> 2 (row 2)']);
+    expect(fix.html).toContain('<td rowspan="2">1</td>');
+  });
+
+  it('CELL_HOLE: drops a rowspan that pushes a full row out of the table', () => {
+    const fix = applyRuleFixes(fixture('spurious-rowspan-full-row'));
+
+    expect(fix.applied).toEqual(['CELL_HOLE: rowspan 3 -> 1 at R1:C1']);
+    expect(texts(fix.html)).toEqual([
+      ['Região', 'Ano', 'Valor'], ['Norte', '2020', '10'], ['Sul', '2020', '12'], ['Leste', '2020', '9'],
+    ]);
+  });
+
+  it('GHOST_COLUMN: removes empty trailing columns', () => {
+    expect(texts(applyRuleFixes(fixture('ghost-columns')).html)).toEqual([['A', 'B'], ['1', '2'], ['3', '4']]);
+
+    const generic = applyRuleFixes(fixture('generic-ghost-header'));
+    expect(generic.applied).toEqual(['GHOST_COLUMN: removed empty column 3', 'GHOST_COLUMN: removed empty column 2']);
+    expect(texts(generic.html)).toEqual([['Produto'], ['Arroz']]);
+  });
+
+  it('GHOST_COLUMN: keeps empty columns in the middle of the table', () => {
+    const fix = applyRuleFixes(fixture('middle-empty-column'));
+
+    expect(fix.applied).toEqual(['GHOST_COLUMN: removed empty column 4']);
+    expect(texts(fix.html)).toEqual([['Produto', 'Coluna 2', 'Preço'], ['Arroz', '', '5'], ['Feijão', '', '7']]);
+
+    // O "-" sobre dados vira colspan do anterior; o "–" sobre a coluna vazia fica (a IA decide)
+    const hyphens = applyRuleFixes(fixture('hyphen-placeholders'));
+    expect(hyphens.applied).toEqual(['HEADER_EMPTY: merged empty header (col 2) into "A"']);
+    expect(texts(hyphens.html)).toEqual([['A', '–', 'B'], ['1', '-', '', '2']]);
+  });
+
+  it('HEADER_EMPTY: merges an empty header into the previous one', () => {
+    const fix = applyRuleFixes(fixture('header-empty'));
+
+    expect(fix.applied).toEqual(['HEADER_EMPTY: merged empty header (col 2) into "Nome"']);
+    expect(fix.html).toContain('<th colspan="2">Nome</th><th>Idade</th>');
+  });
+
+  it('HEADER_EMPTY: keeps each value under its header when the column has its own values', () => {
+    const original = fixture('empty-header-own-values');
+    const fix = applyRuleFixes(original);
+
+    expect(fix.applied).toEqual(['HEADER_EMPTY: merged empty header (col 2) into "Ano"']);
+    // Corpo intacto e "Total" continua sobre os totais
+    expect(texts(fix.html).slice(1)).toEqual(texts(original).slice(1));
+    const header = tableToGrid(fix.html).rows[0].map(({ text, col, colspan }) => ({ text, col, colspan }));
+    expect(header).toEqual([{ text: 'Ano', col: 0, colspan: 2 }, { text: 'Total', col: 2, colspan: 1 }]);
+  });
+
+  it('MARKDOWN_DETECTED: converts a Markdown table to HTML', () => {
+    const fix = applyRuleFixes(fixture('markdown-detected'));
+
+    expect(fix.applied).toEqual(['MARKDOWN_DETECTED: converted Markdown table to HTML']);
+    expect(texts(fix.html)).toEqual([['Ano', 'Valor'], ['2020', '10']]);
+  });
+
+  it('leaves healthy tables untouched', () => {
+    const html = fixture('thead-tbody');
+    expect(applyRuleFixes(html)).toEqual({ html, changed: false, applied: [] });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { auditData } from '../src/services/auditService.js';
+import { mergeSplitTables, repairInputHtml } from '../src/services/ruleRepairService.js';
+
+const context = { qid: 'q1', questionIndex: 0, field: 'enunciado', tableIndex: 0, fullText: '' };
+
+const HEADER = '<table><tr><th>Ano</th><th>Valor</th></tr><tr><td>2020</td><td>10</td></tr></table>';
+const FRAGMENT = '<table><tr><td>2021</td><td>20</td></tr></table>';
+
+const splitIssues = (enunciado: string, rules?: Parameters<typeof auditData>[1]) =>
+  auditData([{ id: 1, enunciado }], rules).issues
+    .filter(i => i.type === 'SPLIT_TABLE')
+    .map(({ tableIndex, tableSpan, title }) => ({ tableIndex, tableSpan, title }));
+
+describe('SPLIT_TABLE', () => {
+  it('groups adjacent headerless fragments with the same column count', () => {
+    const field = `<p>Veja:</p>${HEADER} \n<!-- quebra -->${FRAGMENT}${FRAGMENT.replace('2021', '2022')}<p>fim</p>${HEADER}${FRAGMENT}`;
+
+    expect(splitIssues(field)).toEqual([
+      { tableIndex: 0, tableSpan: 3, title: 'Table split across 3 <table> elements (tables 1-3)' },
+      { tableIndex: 3, tableSpan: 2, title: 'Table split across 2 <table> elements (tables 4-5)' },
+    ]);
+  });
+
+  it('ignores tables with their own header, other widths or content between', () => {
+    expect(splitIssues(HEADER + HEADER)).toEqual([]);
+    expect(splitIssues(HEADER + '<table><thead><tr><td>2021</td><td>20</td></tr></thead></table>')).toEqual([]);
+    expect(splitIssues(HEADER + '<table><tr><td>2021</td><td>20</td><td>x</td></tr></table>')).toEqual([]);
+    expect(splitIssues(`${HEADER}<p>texto</p>${FRAGMENT}`)).toEqual([]);
+    expect(splitIssues(`${HEADER}<br>${FRAGMENT}`)).toEqual([]);
+    expect(splitIssues(HEADER + FRAGMENT, { rules: { SPLIT_TABLE: { enabled: false } } })).toEqual([]);
+  });
+
+  it('merges the fragments into the first table', () => {
+    const result = mergeSplitTables(`${HEADER}\n${FRAGMENT}`, context, () => true);
+
+    expect(result.html).toBe(
+      '<table><tbody><tr><th>Ano</th><th>Valor</th></tr><tr><td>2020</td><td>10</td></tr>' +
+      '<tr><td>2021</td><td>20</td></tr></tbody></table>'
+    );
+    expect(result.applied).toEqual(['SPLIT_TABLE: merged 2 tables (1 row(s) appended)']);
+    expect(result.remaining).toEqual([]);
+  });
+
+  it('appends a body to a header-only table', () => {
+    const result = mergeSplitTables(
+      '<table><thead><tr><th>Ano</th><th>Valor</th></tr></thead></table>' + FRAGMENT,
+      context,
+      () => true
+    );
+
+    expect(result.html).toBe(
+      '<table><thead><tr><th>Ano</th><th>Valor</th></tr></thead><tbody><tr><td>2021</td><td>20</td></tr></tbody></table>'
+    );
+    expect(repairInputHtml({ taskType: 'FIELD_REPAIR', rawHtml: '<table><thead><tr><th>Ano</th><th>Valor</th></tr></thead></table>' + FRAGMENT }))
+      .toBe(result.html);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from '../src/utils/dom.js';
+import {
+  fingerprintMarkdownTable,
+  fingerprintTables,
+  locateMarkdownTable,
+  locateTable,
+  topLevelTables,
+} from '../src/services/tableFingerprint.js';
+
+const A = '<table><tr><td>a</td></tr></table>';
+const B = '<table><tr><td>b</td></tr></table>';
+
+const locate = (fieldHtml: string, target: Parameters<typeof locateTable>[2]) => {
+  const body = parseHtml(`<body>${fieldHtml}</body>`).querySelector('body')!;
+  return locateTable(topLevelTables(body), body, target);
+};
+
+describe('table fingerprint', () => {
+  it('finds the original table after the field changed', () => {
+    const field = `<p>Veja</p>${A}<div>${B}</div>`;
+    const target = { tableIndex: 1, ...fingerprintTables(field, 1) };
+
+    // Formatação diferente, mesma tabela
+    expect(fingerprintTables(`<p>Veja</p>${A}<div>\n<table>\n<tr><td>b</td></tr></table></div>`, 1)?.fingerprint)
+      .toBe(target.fingerprint);
+
+    expect(locate(`<div>${B}</div>`, target)).toEqual({ index: 0 });
+    expect(locate(`<p>Veja</p><table><tr><td>novo</td></tr></table>${A}`, target))
+      .toEqual({ index: null, conflict: 'Original table not found in field' });
+  });
+
+  it('uses the text before the table to tell identical tables apart', () => {
+    const field = `<p>Primeira</p>${A}<p>Segunda</p>${A}`;
+    const second = { tableIndex: 1, ...fingerprintTables(field, 1) };
+    expect(second.anchor).toBe('Primeira a Segunda');
+
+    expect(locate(`<p>Primeira</p>${B}<p>Segunda</p>${A}<p>Terceira</p>${A}`, second)).toEqual({ index: 1 });
+    expect(locate(`<p>Primeira</p>a<p>Segunda</p>${A}<p>Terceira</p>${A}`, second)).toEqual({ index: 0 });
+    expect(locate(`${A}${A}${A}`, { ...second, tableIndex: 2 })).toEqual({ index: 2 });
+    expect(locate(`${A}${A}${A}`, second)).toEqual({ index: 1 });
+    expect(locate(`${A}${A}${A}`, { ...second, tableIndex: 5 }))
+      .toEqual({ index: null, conflict: 'Original table matches 3 tables in field' });
+  });
+
+  it('fingerprints a sequence of tables as one target', () => {
+    const field = `${A}${B}<p>x</p>${A}`;
+    const target = { tableIndex: 0, tableSpan: 2, ...fingerprintTables(field, 0, 2) };
+
+    expect(locate(`${B}${A}${B}`, target)).toEqual({ index: 1 });
+    expect(fingerprintTables(field, 2, 2)).toBeNull();
+  });
+
+  it('falls back to the position without a fingerprint', () => {
+    expect(locate(`${A}${B}`, { tableIndex: 1 })).toEqual({ index: 1 });
+    expect(locate(A, { tableIndex: 0, tableSpan: 2 }))
+      .toEqual({ index: null, conflict: 'Table index 0 out of bounds (0 candidates)' });
+  });
+
+  it('locates markdown tables in the field text', () => {
+    const field = 'Antes\n| a |\n|---|\n| 1 |\n\nDepois\n| b |\n|---|\n| 2 |';
+    const target = { tableIndex: 1, ...fingerprintMarkdownTable(field, 1) };
+
+    expect(locateMarkdownTable('Depois\n  | b |\n  |---|\n  | 2 |', target)).toEqual({ index: 0 });
+    expect(locateMarkdownTable('<table><tr><td>b</td></tr></table>', target).conflict)
+      .toBe('Original table not found in field');
+  });
+});